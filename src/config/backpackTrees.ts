@@ -0,0 +1,11 @@
+import type { TabConfig } from "../lib/Tabs.svelte";
+import { guardianTree } from "./guardianTree";
+import { vanguardTree } from "./vanguardTree";
+import { cannonTree } from "./cannonTree";
+
+// Backpack paths in tab order. Share codes and saved progress index trees by this order.
+export const backpackTrees: TabConfig[] = [
+    { id: "guardian", label: "Guardian", nodes: guardianTree },
+    { id: "vanguard", label: "Vanguard", nodes: vanguardTree },
+    { id: "cannon", label: "Cannon", nodes: cannonTree },
+];
@@ -2,35 +2,77 @@
 // Positions are offset so root is at (0, 0) and serves as the center of the grid.
 // Radius values are 0-1 scale where 1.0 is the maximum size (65px equivalent).
 // Note: Root node is always rendered at (0, 0) by Tree.svelte and is not included here.
-export const baseTree = [
-    { id: "attack", x: 0, y: 73, maxLevel: 100, label: "Attack", radius: 60 / 65 },
-    { id: "defense", x: -73, y: -45, maxLevel: 100, label: "Defense", radius: 60 / 65 },
-    { id: "hp", x: 68, y: -45, maxLevel: 100, label: "HP", radius: 60 / 65 },
-    { id: "attack_3_1", x: 133, y: -78, maxLevel: 100, parentIds: ["hp"], label: "Attack_3_1", radius: 35 / 65 },
-    { id: "dodge_3_1", x: 173, y: -165, maxLevel: 100, parentIds: ["attack_3_1"], label: "Dodge_3_1", radius: 50 / 65 },
-    { id: "damage_reflection_3_1", x: 225, y: -73, maxLevel: 100, parentIds: ["attack_3_1"], label: "Damage_reflection_3_1", radius: 50 / 65 },
-    { id: "global_attack_3_1", x: 268, y: -158, maxLevel: 50, parentIds: ["damage_reflection_3_1", "dodge_3_1"], label: "Global_Attack_3_1", radius: 35 / 65 },
-    { id: "hp_1_1", x: 0, y: 153, maxLevel: 100, parentIds: ["attack"], label: "HP_1_1", radius: 35 / 65 },
-    { id: "ignore_dodge_1_1", x: -53, y: 228, maxLevel: 100, parentIds: ["hp_1_1"], label: "Ignore_Dodge_1_1", radius: 50 / 65 },
-    { id: "skill_critical_res_1_1", x: 55, y: 228, maxLevel: 100, parentIds: ["hp_1_1"], label: "Skill_crit_res_1_1", radius: 50 / 65 },
-    { id: "global_def_1_1", x: 0, y: 310, maxLevel: 50, parentIds: ["skill_critical_res_1_1", "ignore_dodge_1_1"], label: "Global_Def_1_1", radius: 35 / 65 },
-    { id: "hp_2_1", x: -135, y: -80, maxLevel: 100, parentIds: ["defense"], label: "HP_2_1", radius: 35 / 65 },
-    { id: "dodge_2_1", x: -228, y: -78, maxLevel: 100, parentIds: ["hp_2_1"], label: "Dodge_2_1", radius: 50 / 65 },
-    { id: "skill_crit_res_2_1", x: -175, y: -165, maxLevel: 100, parentIds: ["hp_2_1"], label: "Skill_crit_res_2_1", radius: 50 / 65 },
-    { id: "global_hp_2_1", x: -270, y: -155, maxLevel: 50, parentIds: ["skill_crit_res_2_1", "dodge_2_1"], label: "Global_HP_2_1", radius: 35 / 65 },
-    { id: "def_3_2", x: 133, y: 75, maxLevel: 100, parentIds: ["hp"], label: "Def_3_2", radius: 35 / 65 },
-    { id: "ignore_dodge_3_2", x: 225, y: 68, maxLevel: 100, parentIds: ["def_3_2"], label: "Ignore_Dodge_3_2", radius: 50 / 65 },
-    { id: "ignore_stun_3_2", x: 173, y: 158, maxLevel: 100, parentIds: ["def_3_2"], label: "Ignore_Stun_3_2", radius: 50 / 65 },
-    { id: "global_def_3_2", x: 268, y: 150, maxLevel: 50, parentIds: ["ignore_dodge_3_2", "ignore_stun_3_2"], label: "Global_Def_3_2", radius: 35 / 65 },
-    { id: "def_1_2", x: -135, y: 75, maxLevel: 100, parentIds: ["attack"], label: "Def_1_2", radius: 35 / 65 },
-    { id: "dodge_1_2", x: -228, y: 68, maxLevel: 100, parentIds: ["def_1_2"], label: "Dodge_1_2", radius: 50 / 65 },
-    { id: "ignore_stun_1_2", x: -175, y: 158, maxLevel: 100, parentIds: ["def_1_2"], label: "Ignore_Stun_1_2", radius: 50 / 65 },
-    { id: "global_hp_1_2", x: -270, y: 150, maxLevel: 50, parentIds: ["dodge_1_2", "ignore_stun_1_2"], label: "Global_HP_1_2", radius: 35 / 65 },
-    { id: "attack_2_2", x: 0, y: -158, maxLevel: 100, parentIds: ["defense"], label: "Attack_2_2", radius: 35 / 65 },
-    { id: "ignore_dodge_2_2", x: -53, y: -235, maxLevel: 100, parentIds: ["attack_2_2"], label: "Ignore_Dodge_2_2", radius: 50 / 65 },
-    { id: "damage_reflection_2_2", x: 55, y: -235, maxLevel: 100, parentIds: ["attack_2_2"], label: "Damage_Reflection_2_2", radius: 50 / 65 },
-    { id: "global_attack_2_2", x: 0, y: -315, maxLevel: 50, parentIds: ["ignore_dodge_2_2", "damage_reflection_2_2"], label: "Global_Attack_2_2", radius: 35 / 65 },
-    { id: "final_1", x: -190, y: 300, maxLevel: 5, parentIds: ["global_hp_1_2", "global_def_1_1"], label: "Final_1", radius: 1.0 },
-    { id: "final_2", x: -190, y: -318, maxLevel: 5, parentIds: ["global_hp_2_1", "global_attack_2_2"], label: "Final_2", radius: 1.0 },
-    { id: "final_3", x: 368, y: -3, maxLevel: 5, parentIds: ["global_attack_3_1", "global_def_3_2"], label: "Final_3", radius: 1.0 },
+// Cost values are the Tech Crystals needed per level (see NodeCost in Tree.svelte).
+// Effect values are the stat boost percent granted per level (see NodeEffect in Tree.svelte).
+import type { NodeCost, NodeEffect, StatType, TreeNode } from "../lib/Tree.svelte";
+
+const CORE_COST: NodeCost = { base: 1, increment: 1 };
+const LINK_COST: NodeCost = { base: 2, increment: 1 };
+const SKILL_COST: NodeCost = { base: 3, increment: 2 };
+const GLOBAL_COST: NodeCost = { base: 10, increment: 5 };
+const FINAL_COST: NodeCost = [200, 400, 600, 800, 1000];
+
+const CORE_BOOST = 100;
+const LINK_BOOST = 50;
+const SKILL_BOOST = 0.1;
+const GLOBAL_BOOST = 4;
+const FINAL_BOOST = 4;
+
+const boost = (stat: StatType, perLevel: number): NodeEffect => ({ stat, perLevel });
+
+export const baseTree: TreeNode[] = [
+    { id: "attack", x: 0, y: 73, maxLevel: 100, label: "Attack", radius: 60 / 65, cost: CORE_COST, effect: boost("attack", CORE_BOOST) },
+    { id: "defense", x: -73, y: -45, maxLevel: 100, label: "Defense", radius: 60 / 65, cost: CORE_COST, effect: boost("defense", CORE_BOOST) },
+    { id: "hp", x: 68, y: -45, maxLevel: 100, label: "HP", radius: 60 / 65, cost: CORE_COST, effect: boost("hp", CORE_BOOST) },
+    { id: "attack_3_1", x: 133, y: -78, maxLevel: 100, parentIds: ["hp"], label: "Attack_3_1", radius: 35 / 65, cost: LINK_COST, effect: boost("attack", LINK_BOOST) },
+    { id: "dodge_3_1", x: 173, y: -165, maxLevel: 100, parentIds: ["attack_3_1"], label: "Dodge_3_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("dodge", SKILL_BOOST) },
+    { id: "damage_reflection_3_1", x: 225, y: -73, maxLevel: 100, parentIds: ["attack_3_1"], label: "Damage_reflection_3_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("damage_reflection", SKILL_BOOST) },
+    { id: "global_attack_3_1", x: 268, y: -158, maxLevel: 50, parentIds: ["damage_reflection_3_1", "dodge_3_1"], label: "Global_Attack_3_1", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_attack", GLOBAL_BOOST) },
+    { id: "hp_1_1", x: 0, y: 153, maxLevel: 100, parentIds: ["attack"], label: "HP_1_1", radius: 35 / 65, cost: LINK_COST, effect: boost("hp", LINK_BOOST) },
+    { id: "ignore_dodge_1_1", x: -53, y: 228, maxLevel: 100, parentIds: ["hp_1_1"], label: "Ignore_Dodge_1_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("ignore_dodge", SKILL_BOOST) },
+    { id: "skill_critical_res_1_1", x: 55, y: 228, maxLevel: 100, parentIds: ["hp_1_1"], label: "Skill_crit_res_1_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("skill_crit_res", SKILL_BOOST) },
+    { id: "global_def_1_1", x: 0, y: 310, maxLevel: 50, parentIds: ["skill_critical_res_1_1", "ignore_dodge_1_1"], label: "Global_Def_1_1", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_defense", GLOBAL_BOOST) },
+    { id: "hp_2_1", x: -135, y: -80, maxLevel: 100, parentIds: ["defense"], label: "HP_2_1", radius: 35 / 65, cost: LINK_COST, effect: boost("hp", LINK_BOOST) },
+    { id: "dodge_2_1", x: -228, y: -78, maxLevel: 100, parentIds: ["hp_2_1"], label: "Dodge_2_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("dodge", SKILL_BOOST) },
+    { id: "skill_crit_res_2_1", x: -175, y: -165, maxLevel: 100, parentIds: ["hp_2_1"], label: "Skill_crit_res_2_1", radius: 50 / 65, cost: SKILL_COST, effect: boost("skill_crit_res", SKILL_BOOST) },
+    { id: "global_hp_2_1", x: -270, y: -155, maxLevel: 50, parentIds: ["skill_crit_res_2_1", "dodge_2_1"], label: "Global_HP_2_1", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_hp", GLOBAL_BOOST) },
+    { id: "def_3_2", x: 133, y: 75, maxLevel: 100, parentIds: ["hp"], label: "Def_3_2", radius: 35 / 65, cost: LINK_COST, effect: boost("defense", LINK_BOOST) },
+    { id: "ignore_dodge_3_2", x: 225, y: 68, maxLevel: 100, parentIds: ["def_3_2"], label: "Ignore_Dodge_3_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("ignore_dodge", SKILL_BOOST) },
+    { id: "ignore_stun_3_2", x: 173, y: 158, maxLevel: 100, parentIds: ["def_3_2"], label: "Ignore_Stun_3_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("ignore_stun", SKILL_BOOST) },
+    { id: "global_def_3_2", x: 268, y: 150, maxLevel: 50, parentIds: ["ignore_dodge_3_2", "ignore_stun_3_2"], label: "Global_Def_3_2", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_defense", GLOBAL_BOOST) },
+    { id: "def_1_2", x: -135, y: 75, maxLevel: 100, parentIds: ["attack"], label: "Def_1_2", radius: 35 / 65, cost: LINK_COST, effect: boost("defense", LINK_BOOST) },
+    { id: "dodge_1_2", x: -228, y: 68, maxLevel: 100, parentIds: ["def_1_2"], label: "Dodge_1_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("dodge", SKILL_BOOST) },
+    { id: "ignore_stun_1_2", x: -175, y: 158, maxLevel: 100, parentIds: ["def_1_2"], label: "Ignore_Stun_1_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("ignore_stun", SKILL_BOOST) },
+    { id: "global_hp_1_2", x: -270, y: 150, maxLevel: 50, parentIds: ["dodge_1_2", "ignore_stun_1_2"], label: "Global_HP_1_2", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_hp", GLOBAL_BOOST) },
+    { id: "attack_2_2", x: 0, y: -158, maxLevel: 100, parentIds: ["defense"], label: "Attack_2_2", radius: 35 / 65, cost: LINK_COST, effect: boost("attack", LINK_BOOST) },
+    { id: "ignore_dodge_2_2", x: -53, y: -235, maxLevel: 100, parentIds: ["attack_2_2"], label: "Ignore_Dodge_2_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("ignore_dodge", SKILL_BOOST) },
+    { id: "damage_reflection_2_2", x: 55, y: -235, maxLevel: 100, parentIds: ["attack_2_2"], label: "Damage_Reflection_2_2", radius: 50 / 65, cost: SKILL_COST, effect: boost("damage_reflection", SKILL_BOOST) },
+    { id: "global_attack_2_2", x: 0, y: -315, maxLevel: 50, parentIds: ["ignore_dodge_2_2", "damage_reflection_2_2"], label: "Global_Attack_2_2", radius: 35 / 65, cost: GLOBAL_COST, effect: boost("global_attack", GLOBAL_BOOST) },
+    { id: "final_1", x: -190, y: 300, maxLevel: 5, parentIds: ["global_hp_1_2", "global_def_1_1"], label: "Final_1", radius: 1.0, cost: FINAL_COST, effect: boost("final_damage", FINAL_BOOST) },
+    { id: "final_2", x: -190, y: -318, maxLevel: 5, parentIds: ["global_hp_2_1", "global_attack_2_2"], label: "Final_2", radius: 1.0, cost: FINAL_COST, effect: boost("final_damage", FINAL_BOOST) },
+    { id: "final_3", x: 368, y: -3, maxLevel: 5, parentIds: ["global_attack_3_1", "global_def_3_2"], label: "Final_3", radius: 1.0, cost: FINAL_COST, effect: boost("final_damage", FINAL_BOOST) },
 ];
+
+/**
+ * Per-node values that differ between backpack paths, keyed by node ID
+ */
+export type TreeNodeOverrides = Record<
+    string,
+    Partial<Pick<TreeNode, "maxLevel" | "label" | "cost" | "effect">>
+>;
+
+/**
+ * Creates a tree definition that shares the base layout (IDs, order, positions
+ * and parents) and overrides the values that differ for a backpack path.
+ * @param overrides Per-node overrides keyed by node ID
+ * @returns A new node list in base layout order
+ * @throws Error if an override targets a node ID missing from the base layout
+ */
+export function createTree(overrides: TreeNodeOverrides = {}): TreeNode[] {
+    for (const nodeId of Object.keys(overrides)) {
+        if (!baseTree.some((node) => node.id === nodeId)) {
+            throw new Error(`Unknown node ID in tree overrides: ${nodeId}`);
+        }
+    }
+    return baseTree.map((node) => ({ ...node, ...overrides[node.id] }));
+}
@@ -1,3 +1,10 @@
-import { baseTree } from "./baseTree";
+import { createTree } from "./baseTree";
 
-export const cannonTree = baseTree;
+// Cannon trades cheaper links for pricier final nodes with an extra level.
+export const cannonTree = createTree({
+    attack_3_1: { maxLevel: 120, cost: { base: 1, increment: 1 } },
+    attack_2_2: { maxLevel: 120, cost: { base: 1, increment: 1 } },
+    final_1: { maxLevel: 6, cost: [250, 500, 750, 1000, 1250, 1500] },
+    final_2: { maxLevel: 6, cost: [250, 500, 750, 1000, 1250, 1500] },
+    final_3: { maxLevel: 6, cost: [250, 500, 750, 1000, 1250, 1500] },
+});
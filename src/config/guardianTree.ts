@@ -1,3 +1,11 @@
-import { baseTree } from "./baseTree";
+import { createTree } from "./baseTree";
 
-export const guardianTree = baseTree;
+// Guardian leans into survivability: deeper Defense/HP cores and defense globals.
+export const guardianTree = createTree({
+    defense: { maxLevel: 120 },
+    hp: { maxLevel: 120 },
+    global_def_1_1: { maxLevel: 60 },
+    global_def_3_2: { maxLevel: 60 },
+    global_attack_2_2: { cost: { base: 15, increment: 6 } },
+    global_attack_3_1: { cost: { base: 15, increment: 6 } },
+});
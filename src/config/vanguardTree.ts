@@ -1,3 +1,10 @@
-import { baseTree } from "./baseTree";
+import { createTree } from "./baseTree";
 
-export const vanguardTree = baseTree;
+// Vanguard leans into offense: a deeper Attack core and attack globals.
+export const vanguardTree = createTree({
+    attack: { maxLevel: 120 },
+    global_attack_2_2: { maxLevel: 60 },
+    global_attack_3_1: { maxLevel: 60 },
+    global_hp_1_2: { cost: { base: 15, increment: 6 } },
+    global_hp_2_1: { cost: { base: 15, increment: 6 } },
+});
@@ -1,6 +1,7 @@
 import { writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
-const STORAGE_KEY = "rg-backpack-planner-active-tab-id";
+const STORAGE_KEY = STORAGE_KEYS.activeTabId;
 const DEFAULT_TAB_ID = "guardian";
 
 function getStoredActiveTabId(): string {
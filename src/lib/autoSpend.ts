@@ -0,0 +1,144 @@
+import type { StatType, TreeNode } from "./Tree.svelte";
+import type { LevelsById } from "./treeLevelsStore";
+import { getLevelCost, getZeroAncestors } from "./techCrystalCost";
+import { createUpgradePlan, type UpgradePriority } from "./upgradePlan";
+
+/**
+ * How auto-spend distributes crystals
+ * - priority: level toward the target levels, in the upgrade plan order, until a level is unaffordable
+ * - stat: buy the levels with the most of a stat per crystal
+ * - even: level the lowest available node first
+ */
+export type AutoSpendStrategy =
+  | { type: "priority"; priority: UpgradePriority }
+  | { type: "stat"; stat: StatType }
+  | { type: "even" };
+
+export type AutoSpendResult = {
+  levels: LevelsById[];
+  spent: number;
+  /** Levels bought, including auto-leveled parents */
+  levelsAdded: number;
+};
+
+/**
+ * One purchase: a node's next level plus level 1 of every level-0 ancestor it needs
+ */
+type Purchase = {
+  treeIndex: number;
+  nodeIds: string[];
+  cost: number;
+};
+
+const isPlannable = (node: TreeNode) => node.id !== "root" && node.maxLevel > 0;
+
+/**
+ * Distributes a budget over trees with a strategy
+ * Parents are leveled before their children (see isAvailable in Tree.svelte)
+ * and no node goes over its maxLevel.
+ * @param trees Node definitions of each tree, in tree order
+ * @param levels Current levels of each tree
+ * @param targets Target levels of each tree (used by the priority strategy)
+ * @param budget Crystals to spend
+ * @param strategy How to pick the levels to buy
+ * @param treeIndexes Trees to spend on
+ * @returns The new levels of every tree and what was bought
+ */
+export function autoSpend(
+  trees: { nodes: TreeNode[] }[],
+  levels: LevelsById[],
+  targets: LevelsById[],
+  budget: number,
+  strategy: AutoSpendStrategy,
+  treeIndexes: number[],
+): AutoSpendResult {
+  const next = trees.map((_, treeIndex) => ({ ...(levels[treeIndex] ?? {}) }));
+  const nodeMaps = trees.map((tree) => new Map(tree.nodes.map((node) => [node.id, node])));
+  let remaining = budget;
+  let levelsAdded = 0;
+
+  const getLevel = (treeIndex: number, nodeId: string) => next[treeIndex][nodeId] ?? 0;
+
+  const getPurchase = (treeIndex: number, node: TreeNode): Purchase => {
+    const ancestors = getZeroAncestors(node.id, nodeMaps[treeIndex], next[treeIndex]);
+    return {
+      treeIndex,
+      nodeIds: [node.id, ...ancestors.nodeIds],
+      cost: getLevelCost(node, getLevel(treeIndex, node.id) + 1) + ancestors.cost,
+    };
+  };
+
+  const buy = (purchase: Purchase) => {
+    for (const nodeId of purchase.nodeIds) {
+      next[purchase.treeIndex][nodeId] = getLevel(purchase.treeIndex, nodeId) + 1;
+    }
+    remaining -= purchase.cost;
+    levelsAdded += purchase.nodeIds.length;
+  };
+
+  const candidates = treeIndexes.flatMap((treeIndex) =>
+    (trees[treeIndex]?.nodes ?? []).filter(isPlannable).map((node) => ({ treeIndex, node })),
+  );
+  const canLevel = ({ treeIndex, node }: { treeIndex: number; node: TreeNode }) =>
+    getLevel(treeIndex, node.id) < node.maxLevel;
+
+  if (strategy.type === "priority") {
+    const scopedTargets = trees.map((_, treeIndex) =>
+      treeIndexes.includes(treeIndex) ? (targets[treeIndex] ?? {}) : {},
+    );
+    const steps = createUpgradePlan(trees, next, scopedTargets, strategy.priority);
+    fill: for (const step of steps) {
+      const node = nodeMaps[step.treeIndex].get(step.nodeId);
+      if (!node) continue;
+      while (getLevel(step.treeIndex, node.id) < step.toLevel) {
+        const purchase = getPurchase(step.treeIndex, node);
+        // The list is filled in order, so an unaffordable level ends it
+        if (purchase.cost > remaining) break fill;
+        buy(purchase);
+      }
+    }
+  } else if (strategy.type === "stat") {
+    const statCandidates = candidates.filter(({ node }) => node.effect?.stat === strategy.stat);
+    for (;;) {
+      let best: { purchase: Purchase; gainPerCrystal: number } | null = null;
+      for (const candidate of statCandidates) {
+        if (!canLevel(candidate)) continue;
+        const purchase = getPurchase(candidate.treeIndex, candidate.node);
+        if (purchase.cost > remaining) continue;
+        const gainPerCrystal =
+          (candidate.node.effect?.perLevel ?? 0) / Math.max(purchase.cost, 1);
+        if (
+          !best ||
+          gainPerCrystal > best.gainPerCrystal ||
+          (gainPerCrystal === best.gainPerCrystal && purchase.cost < best.purchase.cost)
+        ) {
+          best = { purchase, gainPerCrystal };
+        }
+      }
+      if (!best) break;
+      buy(best.purchase);
+    }
+  } else {
+    for (;;) {
+      let best: { purchase: Purchase; level: number } | null = null;
+      for (const candidate of candidates) {
+        if (!canLevel(candidate)) continue;
+        const purchase = getPurchase(candidate.treeIndex, candidate.node);
+        // Only available nodes: leveling evenly never skips ahead of a parent
+        if (purchase.nodeIds.length > 1 || purchase.cost > remaining) continue;
+        const level = getLevel(candidate.treeIndex, candidate.node.id);
+        if (
+          !best ||
+          level < best.level ||
+          (level === best.level && purchase.cost < best.purchase.cost)
+        ) {
+          best = { purchase, level };
+        }
+      }
+      if (!best) break;
+      buy(best.purchase);
+    }
+  }
+
+  return { levels: next, spent: budget - remaining, levelsAdded };
+}
@@ -0,0 +1,107 @@
+import type { ComponentType } from "svelte";
+import { get } from "svelte/store";
+import { MagicWandIcon } from "phosphor-svelte";
+import { openModal, type ModalChangeRow } from "./modalStore";
+import { showToast } from "./toast";
+import { labelNextHistoryEntry } from "./historyStore";
+import { treeLevels, setTreeLevels, sumLevels } from "./treeLevelsStore";
+import { techCrystalsAvailable, recalculateTechCrystalsSpent } from "./techCrystalStore";
+import { targetLevels } from "./targetLevelsStore";
+import { resolvedComparison } from "./comparisonStore";
+import { autoSpend, type AutoSpendStrategy } from "./autoSpend";
+import { STAT_LABELS, formatStatValue, getTreeStatTotals, sumStatTotals } from "./nodeEffects";
+import { formatNumber } from "./mathUtil";
+import { backpackTrees } from "../config/backpackTrees";
+
+/**
+ * Gets the short name of a strategy, e.g. "Max Attack Boost"
+ */
+export function getAutoSpendStrategyLabel(strategy: AutoSpendStrategy): string {
+  if (strategy.type === "priority") return "Targets in order";
+  if (strategy.type === "stat") return `Max ${STAT_LABELS[strategy.stat]}`;
+  return "Level evenly";
+}
+
+/**
+ * Previews spending the available crystals with a strategy, then applies it on confirm
+ * The whole spend is one history entry, so a single undo reverts it
+ * @param strategy How to distribute the crystals
+ * @param treeIndexes Trees to spend on
+ * @param scopeLabel Name of the trees in messages, e.g. "Guardian tree" or "all trees"
+ */
+export function openAutoSpendModal(
+  strategy: AutoSpendStrategy,
+  treeIndexes: number[],
+  scopeLabel: string,
+): void {
+  if (get(resolvedComparison)?.base.isLive === false) {
+    showToast("Stop comparing to edit your build", { tone: "negative" });
+    return;
+  }
+
+  const available = get(techCrystalsAvailable);
+  if (available <= 0) {
+    showToast("No Tech Crystals available. Set your Tech Crystals owned first", {
+      tone: "negative",
+    });
+    return;
+  }
+
+  const strategyLabel = getAutoSpendStrategyLabel(strategy);
+  const levels = get(treeLevels);
+  if (strategy.type === "priority" && treeIndexes.every((index) => sumLevels(get(targetLevels)[index]) === 0)) {
+    showToast("Set target levels first to spend toward them", { tone: "negative" });
+    return;
+  }
+
+  const result = autoSpend(backpackTrees, levels, get(targetLevels), available, strategy, treeIndexes);
+  if (result.levelsAdded === 0) {
+    showToast(`Nothing affordable to level (${strategyLabel})`, { tone: "negative" });
+    return;
+  }
+
+  const changes: ModalChangeRow[] = [
+    {
+      label: "Tech Crystals available",
+      current: formatNumber(available),
+      incoming: formatNumber(available - result.spent),
+    },
+    ...treeIndexes
+      .filter((index) => sumLevels(levels[index]) !== sumLevels(result.levels[index]))
+      .map((index) => ({
+        label: `${backpackTrees[index].label} levels`,
+        current: formatNumber(sumLevels(levels[index])),
+        incoming: formatNumber(sumLevels(result.levels[index])),
+      })),
+  ];
+  if (strategy.type === "stat") {
+    const getStat = (trees: typeof levels) =>
+      sumStatTotals(backpackTrees.map((tree, index) => getTreeStatTotals(tree.nodes, trees[index])))[
+        strategy.stat
+      ];
+    changes.push({
+      label: STAT_LABELS[strategy.stat],
+      current: formatStatValue(getStat(levels)),
+      incoming: formatStatValue(getStat(result.levels)),
+    });
+  }
+
+  openModal({
+    type: "confirm",
+    title: "AUTO-SPEND",
+    titleIcon: MagicWandIcon as unknown as ComponentType,
+    message: `Spend ${formatNumber(result.spent)} Tech Crystals on ${formatNumber(result.levelsAdded)} levels of the ${scopeLabel} (${strategyLabel}).`,
+    changes,
+    confirmLabel: "Spend",
+    cancelLabel: "Cancel",
+    confirmPositive: true,
+    onConfirm: () => {
+      labelNextHistoryEntry(`Auto-spend: ${strategyLabel}`);
+      for (const index of treeIndexes) {
+        setTreeLevels(index, result.levels[index]);
+      }
+      recalculateTechCrystalsSpent(get(treeLevels));
+      showToast(`Spent ${formatNumber(result.spent)} Tech Crystals`, { tone: "positive" });
+    },
+  });
+}
@@ -7,6 +7,8 @@ import type { BuildData } from "./encoder";
 import type { TreeNode } from "../Tree.svelte";
 import { treeLevels, setTreeLevels } from "../treeLevelsStore";
 import { setTechCrystalsOwned } from "../techCrystalStore";
+import { setBuildMetadata } from "../buildMetadataStore";
+import { setAllTargets } from "../targetLevelsStore";
 import { expandTreeProgress } from "../treeProgressStore";
 import { loadBuildFromUrl } from "./url";
 import { setIsApplyingBuildFromUrl } from "./url";
@@ -52,6 +54,12 @@ export function applyBuildFromUrl(
     // Apply tech crystals owned
     setTechCrystalsOwned(data.owned);
 
+    // Apply build name, notes and author (cleared if the code has none)
+    setBuildMetadata(data.meta);
+
+    // Apply target levels after the levels (cleared if the code has none)
+    setAllTargets(data.targets);
+
     return true;
   } catch (error) {
     console.error("Failed to apply build from URL:", error);
@@ -0,0 +1,121 @@
+/**
+ * Bit packing helpers for the binary share code format
+ * Values are written most significant bit first and stored as base64url
+ * (6 bits per character, URL-safe without percent-encoding)
+ */
+
+/**
+ * Base64url character set: A-Z, a-z, 0-9, "-", "_" (64 characters total)
+ */
+const BASE64URL_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Bits per base64url character
+ */
+export const BITS_PER_CHAR = 6;
+
+/**
+ * Regex pattern for a valid base64url string
+ */
+export const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Gets the number of bits needed to store values from 0 to maxValue
+ * @param maxValue The largest value to store
+ * @returns The bit width (0 if maxValue is 0)
+ */
+export function getBitWidth(maxValue: number): number {
+  let width = 0;
+  while (2 ** width - 1 < maxValue) {
+    width += 1;
+  }
+  return width;
+}
+
+/**
+ * Creates a writer that packs values into a bit stream
+ */
+export function createBitWriter() {
+  const bits: number[] = [];
+
+  return {
+    /**
+     * Writes a value using exactly `width` bits
+     * @throws Error if the value does not fit in `width` bits
+     */
+    write(value: number, width: number) {
+      if (!Number.isInteger(value) || value < 0 || value > 2 ** width - 1) {
+        throw new Error(`Value ${value} does not fit in ${width} bits`);
+      }
+      for (let bit = width - 1; bit >= 0; bit--) {
+        bits.push(Math.floor(value / 2 ** bit) % 2);
+      }
+    },
+
+    /**
+     * Encodes the bit stream as base64url
+     * Trailing zero characters are omitted (readers pad with zeros), keeping at least one character
+     */
+    toBase64Url(): string {
+      let encoded = "";
+      for (let i = 0; i < bits.length; i += BITS_PER_CHAR) {
+        let charValue = 0;
+        for (let bit = 0; bit < BITS_PER_CHAR; bit++) {
+          charValue = charValue * 2 + (bits[i + bit] ?? 0);
+        }
+        encoded += BASE64URL_CHARS[charValue];
+      }
+      const trimmed = encoded.replace(/A+$/, "");
+      return trimmed === "" ? BASE64URL_CHARS[0] : trimmed;
+    },
+  };
+}
+
+/**
+ * Creates a reader over a base64url bit stream
+ * Reading past the end yields zeros (trailing zero characters are omitted by the writer)
+ * @param encoded The base64url string (must match BASE64URL_PATTERN)
+ */
+export function createBitReader(encoded: string) {
+  let bitIndex = 0;
+
+  const readBit = (): number => {
+    const charIndex = Math.floor(bitIndex / BITS_PER_CHAR);
+    if (charIndex >= encoded.length) {
+      bitIndex += 1;
+      return 0;
+    }
+    const charValue = BASE64URL_CHARS.indexOf(encoded[charIndex]);
+    const shift = BITS_PER_CHAR - 1 - (bitIndex % BITS_PER_CHAR);
+    bitIndex += 1;
+    return Math.floor(charValue / 2 ** shift) % 2;
+  };
+
+  return {
+    /**
+     * Reads a value stored in `width` bits
+     */
+    read(width: number): number {
+      let value = 0;
+      for (let bit = 0; bit < width; bit++) {
+        value = value * 2 + readBit();
+      }
+      return value;
+    },
+
+    /**
+     * Index of the character holding the next bit
+     */
+    get charIndex(): number {
+      return Math.floor(bitIndex / BITS_PER_CHAR);
+    },
+
+    /**
+     * Number of characters the bits read so far span
+     */
+    get charsRead(): number {
+      return Math.ceil(bitIndex / BITS_PER_CHAR);
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Typed errors for share code decoding
+ * Lets the UI explain why a link or build code could not be loaded
+ */
+
+import type { BuildData } from "./encoder";
+
+/**
+ * What went wrong while decoding a share code
+ */
+export type BuildDecodeErrorKind =
+  | "empty" // Nothing to decode
+  | "no_build_in_link" // A link without a build code
+  | "invalid_character" // Character outside the share code alphabet
+  | "invalid_version" // Malformed format version marker
+  | "unsupported_version" // Format version this app does not know
+  | "truncated" // Code ends mid-token (cut off)
+  | "corrupted" // Checksum mismatch (cut off or edited)
+  | "invalid_rle_count" // Malformed or zero repeat count
+  | "invalid_value" // Malformed node level
+  | "invalid_owned" // Malformed Tech Crystals owned value
+  | "tree_count" // More trees than the planner has
+  | "branch_count" // More branches than a tree has
+  | "node_count" // More node levels than a branch has
+  | "level_over_max" // Node level above the node's maxLevel
+  | "invalid_metadata" // Unreadable build name, notes or author
+  | "malformed"; // Any other unreadable code
+
+/**
+ * Error raised while decoding a share code
+ * `position` is the 0-based character index in the code, when known
+ */
+export class BuildDecodeError extends Error {
+  readonly kind: BuildDecodeErrorKind;
+  readonly position: number | null;
+
+  constructor(
+    kind: BuildDecodeErrorKind,
+    message: string,
+    position: number | null = null,
+  ) {
+    super(message);
+    this.name = "BuildDecodeError";
+    this.kind = kind;
+    this.position = position;
+  }
+}
+
+/**
+ * Result of decoding a share code
+ */
+export type BuildDecodeResult =
+  | { ok: true; data: BuildData }
+  | { ok: false; error: BuildDecodeError };
+
+/**
+ * Formats a decode error for display, e.g. `Invalid character "@" (at character 12)`
+ * @param error The decode error
+ * @returns A human-readable reason
+ */
+export function describeBuildDecodeError(error: BuildDecodeError): string {
+  if (error.position === null) {
+    return error.message;
+  }
+  return `${error.message} (at character ${error.position + 1})`;
+}
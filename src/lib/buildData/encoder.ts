@@ -4,49 +4,64 @@
  * and serialization for URL sharing (all characters are URL-safe, no base64 encoding needed)
  */
 
-import { baseTree } from "../../config/baseTree";
+import type { TreeNode } from "../Tree.svelte";
+import { backpackTrees } from "../../config/backpackTrees";
+import {
+  BUILD_FORMAT_VERSION,
+  LEGACY_LAYOUTS,
+  LEGACY_MAX_LEVELS,
+  migrateBuildData,
+  type TreeLayout,
+} from "./versions";
+import {
+  BuildDecodeError,
+  type BuildDecodeErrorKind,
+  type BuildDecodeResult,
+} from "./decodeError";
+import {
+  BASE64URL_PATTERN,
+  createBitReader,
+  createBitWriter,
+  getBitWidth,
+} from "./bitPacking";
+import {
+  type BuildMetadata,
+  encodeMetadataSegment,
+  decodeMetadataSegment,
+  isBuildMetadataEmpty,
+} from "./metadata";
 
 /**
- * TreeNode type (matching Tree.svelte)
+ * Tree definitions the encoder maps levels against (one per tree, in tree order)
+ * Branch roots default to the tree's nodes without parents, in node order
  */
-type TreeNode = {
-  id: string;
-  x: number;
-  y: number;
-  maxLevel: number;
-  label?: string;
-  parentIds?: string[];
-  radius?: number;
-};
+export type EncoderTree = { nodes: TreeNode[]; branchRoots?: string[] };
 
 /**
- * Build data structure representing tree levels and tech crystals owned
+ * Share code representation: the readable text format, the bit-packed binary
+ * format, or whichever of the two is shorter
  */
-export interface BuildData {
-  trees: Record<string, number>[];
-  owned: number;
-}
+export type EncodeFormat = "auto" | "text" | "binary";
 
 /**
- * Branch types: yellow (attack), orange (defense), blue (hp)
+ * Decode options
+ * - allowOverMaxLevel: keep levels above a node's maxLevel instead of failing with
+ *   "level_over_max" (for callers that repair the build, see repairBuildData)
  */
-type BranchType = "yellow" | "orange" | "blue";
+export type DecodeOptions = { allowOverMaxLevel?: boolean };
 
 /**
- * Branch root node IDs - maps branch type to root node ID
- */
-const BRANCH_ROOTS = {
-  yellow: "attack",
-  orange: "defense",
-  blue: "hp",
-} as const;
-
-/**
- * Reverse lookup map: root node ID -> branch type (for O(1) lookup)
+ * Build data structure representing tree levels and tech crystals owned
+ * `meta` holds the optional build name, notes and author
+ * `targets` holds the optional target level of each node, one record per tree
+ * (targets at or below a node's level mean "no target")
  */
-const ROOT_TO_BRANCH = new Map<string, BranchType>(
-  Object.entries(BRANCH_ROOTS).map(([branch, root]) => [root, branch as BranchType])
-);
+export interface BuildData {
+  trees: Record<string, number>[];
+  owned: number;
+  meta?: BuildMetadata;
+  targets?: Record<string, number>[];
+}
 
 /**
  * Special marker for completely empty build (all trees empty, owned=0)
@@ -62,137 +77,138 @@ const SEPARATOR_BRANCH = ","; // Separates branches within a tree
 const SEPARATOR_TREE = ";"; // Separates trees and owned value
 const SEPARATOR_RLE_NODE_COUNT = "'"; // Separates value from count in RLE node patterns
 const SEPARATOR_RLE_TREE_COUNT = ":"; // Separates tree string from count in RLE tree patterns
+const SEPARATOR_SEGMENT = "~"; // Separates the format version, tagged segments and the build data
 
 /**
- * Regex pattern for valid serialized format characters
- * Serialized format uses: base62 numbers (0-9, a-z, A-Z), separators (.,;':), and empty marker (_)
+ * Tagged segment markers (first character of a segment between version and build data)
  */
-export const SERIALIZED_PATTERN = /^[0-9a-zA-Z.,;':_]+$/;
+const SEGMENT_TAG_CHECKSUM = "c";
+const SEGMENT_TAG_BINARY = "b"; // Build data is in the binary format (no value)
+const SEGMENT_TAG_METADATA = "m"; // Build name, notes and author
+const SEGMENT_TAG_TARGETS = "t"; // Target levels, in the text format without owned
+const SEGMENT_TAGS = [
+  SEGMENT_TAG_CHECKSUM,
+  SEGMENT_TAG_BINARY,
+  SEGMENT_TAG_METADATA,
+  SEGMENT_TAG_TARGETS,
+];
 
 /**
- * Node map for quick lookup
+ * Checksum length in base62 characters (62^3 = 238,328 values)
  */
-let nodeMap: Map<string, TreeNode> | null = null;
+const CHECKSUM_LENGTH = 3;
 
 /**
- * Branch membership cache
+ * Bits storing the bit width of the owned value in the binary format (widths up to 63)
  */
-let branchCache: Map<string, BranchType> | null = null;
+const OWNED_WIDTH_BITS = 6;
 
 /**
- * Initialize node map from baseTree
+ * Regex pattern for valid serialized format characters
+ * Serialized format uses: base62 numbers (0-9, a-z, A-Z), separators (.,;':~), and empty marker (_)
+ * Binary build data is base64url (0-9, a-z, A-Z, -, _)
+ * Versioned codes are {version}~[{tag}{value}~...]{build}, unversioned codes (no "~") are format version 0
  */
-function initializeNodeMap(): Map<string, TreeNode> {
-  if (!nodeMap) {
-    nodeMap = new Map();
-    for (const node of baseTree) {
-      nodeMap.set(node.id, node);
-    }
-  }
-  return nodeMap;
-}
+export const SERIALIZED_PATTERN = /^[0-9a-zA-Z.,;':_~-]+$/;
 
 /**
- * Checks if a node ID matches any branch root
- * @param nodeId The node ID to check
- * @returns The branch type if it's a root, or null
+ * Matches the first character outside the serialized format
  */
-function getBranchRoot(nodeId: string): BranchType | null {
-  return ROOT_TO_BRANCH.get(nodeId) ?? null;
-}
+const INVALID_CHARACTER_PATTERN = /[^0-9a-zA-Z.,;':_~-]/;
 
 /**
- * Determines which branch a node belongs to by tracing ancestry back to branch roots
- * @param nodeId The node ID to check
- * @returns The branch type (yellow, orange, or blue)
+ * Matches a code ending with a separator (cut off mid-token)
  */
-function getNodeBranch(nodeId: string): BranchType {
-  // Initialize cache if needed
-  if (!branchCache) {
-    branchCache = new Map();
-  }
+const TRUNCATED_PATTERN = /[.,;':~]$/;
 
-  // Check cache first
-  if (branchCache.has(nodeId)) {
-    return branchCache.get(nodeId)!;
+/**
+ * Determines which branch a node belongs to by tracing ancestry back to a branch root
+ * Nodes with several parents belong to the branch of their first parent
+ * @param nodeId The node ID to check
+ * @param nodeMap Lookup of the tree's nodes by ID
+ * @param branchCache Branch index cache for the tree (branch roots pre-seeded)
+ * @param visiting Node IDs on the current ancestry path (cycle guard)
+ * @returns The branch index
+ * @throws Error if the node does not trace back to a branch root
+ */
+function getNodeBranch(
+  nodeId: string,
+  nodeMap: Map<string, TreeNode>,
+  branchCache: Map<string, number>,
+  visiting: Set<string> = new Set(),
+): number {
+  const cached = branchCache.get(nodeId);
+  if (cached !== undefined) {
+    return cached;
   }
 
-  const nodeMap = initializeNodeMap();
   const node = nodeMap.get(nodeId);
-
   if (!node) {
-    // Node not found, default to yellow (shouldn't happen)
-    branchCache.set(nodeId, "yellow");
-    return "yellow";
-  }
-
-  // Check if this node is a branch root
-  const rootBranch = getBranchRoot(nodeId);
-  if (rootBranch) {
-    branchCache.set(nodeId, rootBranch);
-    return rootBranch;
-  }
-
-  // Trace ancestry through parentIds
-  if (node.parentIds && node.parentIds.length > 0) {
-    for (const parentId of node.parentIds) {
-      // Check if parent is a branch root
-      const parentRootBranch = getBranchRoot(parentId);
-      if (parentRootBranch) {
-        branchCache.set(nodeId, parentRootBranch);
-        return parentRootBranch;
-      }
+    throw new Error(`Unknown node in tree definition: ${nodeId}`);
+  }
 
-      // Recursively check parent
-      const parentBranch = getNodeBranch(parentId);
-      branchCache.set(nodeId, parentBranch);
-      return parentBranch;
-    }
+  const firstParentId = node.parentIds?.[0];
+  if (firstParentId === undefined || visiting.has(nodeId)) {
+    throw new Error(`Node is not connected to a branch root: ${nodeId}`);
   }
 
-  // No parentIds or root connection - this shouldn't happen for valid trees
-  // Default to yellow
-  branchCache.set(nodeId, "yellow");
-  return "yellow";
+  visiting.add(nodeId);
+  const branch = getNodeBranch(firstParentId, nodeMap, branchCache, visiting);
+  visiting.delete(nodeId);
+
+  branchCache.set(nodeId, branch);
+  return branch;
 }
 
 /**
- * Creates branch mapping: maps each branch to an ordered array of node IDs
- * @returns Object with yellow, orange, blue arrays of node IDs in order
+ * Creates a tree's node layout: node IDs grouped by branch, in node order
+ * @param tree The tree definition
+ * @returns One array of node IDs per branch root, in branch root order
+ * @throws Error if a branch root is unknown or a node does not belong to a branch
  */
-function createBranchMapping(): {
-  yellow: string[];
-  orange: string[];
-  blue: string[];
-} {
-  const mapping = {
-    yellow: [] as string[],
-    orange: [] as string[],
-    blue: [] as string[],
-  };
+function createTreeLayout(tree: EncoderTree): TreeLayout {
+  const nodeMap = new Map(tree.nodes.map((node) => [node.id, node]));
+  const branchRoots =
+    tree.branchRoots ??
+    tree.nodes
+      .filter((node) => !node.parentIds || node.parentIds.length === 0)
+      .map((node) => node.id);
+
+  const branchCache = new Map<string, number>();
+  branchRoots.forEach((rootId, branchIndex) => {
+    if (!nodeMap.has(rootId)) {
+      throw new Error(`Unknown branch root in tree definition: ${rootId}`);
+    }
+    branchCache.set(rootId, branchIndex);
+  });
 
-  // Process nodes in baseTree order to maintain consistent ordering
-  for (const node of baseTree) {
-    const branch = getNodeBranch(node.id);
-    mapping[branch].push(node.id);
+  const layout: TreeLayout = branchRoots.map(() => []);
+
+  // Process nodes in tree order to maintain consistent ordering
+  for (const node of tree.nodes) {
+    const branch = getNodeBranch(node.id, nodeMap, branchCache);
+    layout[branch].push(node.id);
   }
 
-  return mapping;
+  return layout;
 }
 
 /**
- * Cached branch mapping
+ * Cached node layouts, one per tree definition
  */
-let branchMapping: ReturnType<typeof createBranchMapping> | null = null;
+const treeLayouts = new WeakMap<EncoderTree, TreeLayout>();
 
 /**
- * Gets the branch mapping (cached)
+ * Gets the current node layout of a tree (cached)
+ * @param tree The tree definition
  */
-function getBranchMapping() {
-  if (!branchMapping) {
-    branchMapping = createBranchMapping();
+function getTreeLayout(tree: EncoderTree): TreeLayout {
+  let layout = treeLayouts.get(tree);
+  if (!layout) {
+    layout = createTreeLayout(tree);
+    treeLayouts.set(tree, layout);
   }
-  return branchMapping;
+  return layout;
 }
 
 /**
@@ -326,76 +342,74 @@ function compressRLE(values: string[]): string {
 }
 
 /**
- * Validates and parses an RLE count from a string (decimal for 1-9, base62 for 10+)
- * @param countStr The count string to parse
- * @param context Context string for error messages
- * @returns The parsed count
- * @throws Error if count is invalid
+ * A part of the share code and the index of its first character
  */
-function parseRLECount(countStr: string, context: string): number {
-  // Base62 uses a-z and A-Z, so if it contains letters, it's base62; otherwise decimal
-  const hasLetters = /[a-zA-Z]/.test(countStr);
-  const count = hasLetters ? decodeBase62(countStr) : parseInt(countStr, 10);
+type PositionedText = { text: string; position: number };
 
-  if (isNaN(count) || count < 1) {
-    throw new Error(`Invalid RLE format: invalid count in "${context}"`);
-  }
-  return count;
-}
+/**
+ * A decoded node level and the index of the share code token it came from
+ */
+type PositionedValue = { value: number; position: number };
 
 /**
- * Expands a single RLE pattern to an array of values
- * @param pattern The RLE pattern (value'count or 'count, count may be base62)
- * @returns Array of expanded values
- * @throws Error if pattern is invalid
+ * Parsed build before mapping values to node IDs: per tree, per branch node levels
  */
-function expandRLEPattern(pattern: string): string[] {
-  // Count can be decimal (0-9) or base62 (0-9, a-z, A-Z)
-  // Single quote is not a special regex character, but we escape it for clarity
-  const escapedRleNodeCountSeparator = SEPARATOR_RLE_NODE_COUNT.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const rleMatchWithValue = pattern.match(new RegExp(`^(.+)${escapedRleNodeCountSeparator}([0-9a-zA-Z]+)$`));
-  const rleMatchZeros = pattern.match(new RegExp(`^${escapedRleNodeCountSeparator}([0-9a-zA-Z]+)$`));
+type ParsedBuild = { trees: PositionedValue[][][]; owned: number };
 
-  if (rleMatchZeros) {
-    // Pattern: 'count (run of zeros)
-    const count = parseRLECount(rleMatchZeros[1], pattern);
-    return Array(count).fill("");
-  } else if (rleMatchWithValue) {
-    // Pattern: value'count (run of non-zero values)
-    const value = rleMatchWithValue[1];
-    const count = parseRLECount(rleMatchWithValue[2], pattern);
-    return Array(count).fill(value);
-  } else {
-    // Plain value (no RLE, single occurrence)
-    return [pattern];
+/**
+ * Splits a part of the share code by a separator, keeping each piece's position
+ * @param part The part to split
+ * @param separator The separator
+ * @returns The pieces with the index of their first character in the share code
+ */
+function splitWithPositions(part: PositionedText, separator: string): PositionedText[] {
+  const pieces: PositionedText[] = [];
+  let position = part.position;
+  for (const text of part.text.split(separator)) {
+    pieces.push({ text, position });
+    position += text.length + separator.length;
   }
+  return pieces;
 }
 
 /**
- * Expands RLE-compressed string back to array of values
- * Accepts both RLE format (value'count or 'count) and plain values
- * Examples: "2s'4" → ["2s", "2s", "2s", "2s"], "'3" → ["", "", ""], "1" → ["1"]
- * @param valueString Period-separated string with RLE patterns or plain values
- * @returns Array of expanded value strings
+ * Splits a repeat pattern (value'count or value:count) into its value and count
+ * @param part The pattern (a plain value has a count of 1)
+ * @param separator The count separator
+ * @returns The value part and the repeat count
+ * @throws BuildDecodeError if the count is invalid
  */
-function expandRLE(valueString: string): string[] {
-  if (valueString === "") {
-    return [];
+function parseRepeatPattern(
+  part: PositionedText,
+  separator: string,
+): [PositionedText, number] {
+  const separatorIndex = part.text.lastIndexOf(separator);
+  if (separatorIndex === -1) {
+    return [part, 1];
   }
 
-  const parts = valueString.split(SEPARATOR_NODE_VALUE);
-  const result: string[] = [];
+  const countStr = part.text.slice(separatorIndex + 1);
+  const countPosition = part.position + separatorIndex + 1;
+  if (!/^[0-9a-zA-Z]+$/.test(countStr)) {
+    throw new BuildDecodeError(
+      "invalid_rle_count",
+      countStr === "" ? "Missing repeat count" : `Invalid repeat count "${countStr}"`,
+      countPosition,
+    );
+  }
 
-  for (const part of parts) {
-    if (part === "") {
-      // Empty part represents zero
-      result.push("");
-    } else {
-      result.push(...expandRLEPattern(part));
-    }
+  // Count is decimal for 1-9, base62 for 10+ (contains letters)
+  const hasLetters = /[a-zA-Z]/.test(countStr);
+  const count = hasLetters ? decodeBase62(countStr) : parseInt(countStr, 10);
+  if (count < 1) {
+    throw new BuildDecodeError(
+      "invalid_rle_count",
+      `Invalid repeat count "${countStr}"`,
+      countPosition,
+    );
   }
 
-  return result;
+  return [{ text: part.text.slice(0, separatorIndex), position: part.position }, count];
 }
 
 /**
@@ -412,12 +426,20 @@ function findLastNonEmptyIndex(strings: string[]): number {
   return -1;
 }
 
+/**
+ * Checks if a tree-separated segment has the shape of the owned value (a bare base62 number)
+ * @param segment The segment to check
+ */
+function isOwnedSegment(segment: string): boolean {
+  return /^[0-9a-zA-Z]+$/.test(segment);
+}
+
 /**
  * Serializes branch-grouped array format to custom compact string
- * Format: yellow,orange,blue;yellow,orange,blue;yellow,orange,blue[;owned]
+ * Format: branch,branch,...;branch,branch,...;...[;owned]
  * Trailing empty branches and trailing empty trees are omitted
  * Owned is only included if non-zero
- * @param treeBranchArrays Array of [yellow[], orange[], blue[]] for each tree
+ * @param treeBranchArrays Array of branch arrays (one per branch root) for each tree
  * @param owned Number of tech crystals owned
  * @returns Serialized string
  */
@@ -427,7 +449,7 @@ function serializeArrayFormat(
 ): string {
   // Serialize each tree's branches
   const treeStrings: string[] = treeBranchArrays.map((branches) => {
-    // branches is [yellow[], orange[], blue[]]
+    // branches has one value array per branch root
     const branchStrings: string[] = branches.map((branch) => {
       // Serialize branch: encode to base62, then compress with RLE
       const base62Values = branch.map((val) => (val === 0 ? "" : encodeBase62(val)));
@@ -456,161 +478,171 @@ function serializeArrayFormat(
   // Get non-empty trees
   const nonEmptyTreeStrings = treeStrings.slice(0, lastNonEmptyTreeIndex + 1);
 
-  // Check if all trees are identical (tree-level RLE compression)
-  if (nonEmptyTreeStrings.length === 3) {
-    const firstTree = nonEmptyTreeStrings[0];
-    if (firstTree !== "" && nonEmptyTreeStrings.every((tree) => tree === firstTree)) {
-      // All 3 trees are identical, compress to treeString:count (use base62 for count >= 10)
-      const countStr = encodeRLECount(3);
-      const treePart = `${firstTree}${SEPARATOR_RLE_TREE_COUNT}${countStr}`;
-      return owned === 0 ? treePart : `${treePart}${SEPARATOR_TREE}${encodeBase62(owned)}`;
+  // Tree-level RLE compression: runs of identical trees become treeString:count
+  // (use base62 for count >= 10)
+  const result: string[] = [];
+  let i = 0;
+  while (i < nonEmptyTreeStrings.length) {
+    const currentTree = nonEmptyTreeStrings[i];
+    let count = 1;
+    while (currentTree !== "" && nonEmptyTreeStrings[i + count] === currentTree) {
+      count += 1;
     }
+
+    result.push(
+      count > 1 ? `${currentTree}${SEPARATOR_RLE_TREE_COUNT}${encodeRLECount(count)}` : currentTree,
+    );
+    i += count;
   }
 
-  // Check for partial tree-level RLE compression (2 out of 3 trees identical)
-  if (nonEmptyTreeStrings.length >= 2) {
-    const result: string[] = [];
-    let i = 0;
+  // A trailing bare value would be read back as owned, so keep an explicit zero owned
+  const needsOwned = owned !== 0 || (result.length > 1 && isOwnedSegment(result[result.length - 1]));
+  return needsOwned
+    ? [...result, encodeBase62(owned)].join(SEPARATOR_TREE)
+    : result.join(SEPARATOR_TREE);
+}
 
-    while (i < nonEmptyTreeStrings.length) {
-      const currentTree = nonEmptyTreeStrings[i];
+/**
+ * Parses a branch segment string into node levels
+ * Accepts both RLE format (value'count or 'count) and plain values
+ * Examples: "2s'4" → [2s, 2s, 2s, 2s], "'3" → [0, 0, 0], "1" → [1]
+ * @param segment The branch segment (may be empty)
+ * @param nodeCount Number of nodes in the branch
+ * @param treeIndex Tree index (for error messages)
+ * @param branchIndex Branch index (for error messages)
+ * @returns Node levels in branch order (empty if segment is empty)
+ * @throws BuildDecodeError if a value or count is invalid, or there are too many values
+ */
+function parseBranchSegment(
+  segment: PositionedText,
+  nodeCount: number,
+  treeIndex: number,
+  branchIndex: number,
+): PositionedValue[] {
+  if (segment.text === "") {
+    return [];
+  }
 
-      // Check if current tree and next tree are identical
-      if (i + 1 < nonEmptyTreeStrings.length && currentTree === nonEmptyTreeStrings[i + 1] && currentTree !== "") {
-        // Two identical trees found, compress to treeString:2
-        result.push(`${currentTree}${SEPARATOR_RLE_TREE_COUNT}${encodeRLECount(2)}`);
-        i += 2; // Skip both trees
-      } else {
-        result.push(currentTree);
-        i += 1;
-      }
+  const values: PositionedValue[] = [];
+  for (const part of splitWithPositions(segment, SEPARATOR_NODE_VALUE)) {
+    // Empty part represents zero
+    const [valuePart, count] = parseRepeatPattern(part, SEPARATOR_RLE_NODE_COUNT);
+    if (values.length + count > nodeCount) {
+      throw new BuildDecodeError(
+        "node_count",
+        `Tree ${treeIndex + 1}, branch ${branchIndex + 1} has more than ${nodeCount} node levels`,
+        part.position,
+      );
     }
 
-    // If we compressed anything, use the compressed result
-    if (result.length < nonEmptyTreeStrings.length) {
-      return owned === 0
-        ? result.join(SEPARATOR_TREE)
-        : [...result, encodeBase62(owned)].join(SEPARATOR_TREE);
+    const value = valuePart.text === "" ? 0 : parseBase62Value(valuePart, "invalid_value", "node level");
+    for (let i = 0; i < count; i++) {
+      values.push({ value, position: part.position });
     }
   }
 
-  // Trees are not identical, output normally
-  return owned === 0
-    ? nonEmptyTreeStrings.join(SEPARATOR_TREE)
-    : [...nonEmptyTreeStrings, encodeBase62(owned)].join(SEPARATOR_TREE);
+  return values;
 }
 
 /**
- * Parses a branch segment string into an array of numbers
- * @param branchSegment The branch segment string (may be empty)
- * @returns Array of numbers (empty array if branchSegment is empty)
+ * Decodes a base62 part of the share code
+ * @param part The base62 text
+ * @param kind Error kind to report if the text is not base62
+ * @param name What the value is (for error messages)
+ * @throws BuildDecodeError if the text is not a valid base62 number
  */
-function parseBranchSegment(branchSegment: string): number[] {
-  if (branchSegment === "") {
-    return [];
+function parseBase62Value(
+  part: PositionedText,
+  kind: BuildDecodeErrorKind,
+  name: string,
+): number {
+  const invalidIndex = part.text.search(/[^0-9a-zA-Z]/);
+  if (invalidIndex !== -1) {
+    throw new BuildDecodeError(
+      kind,
+      `Invalid ${name} "${part.text}"`,
+      part.position + invalidIndex,
+    );
   }
-  const expandedValues = expandRLE(branchSegment);
-  return expandedValues.map((val) => {
-    if (val === "") return 0;
-    try {
-      return decodeBase62(val);
-    } catch (error) {
-      throw new Error(`Invalid number value: ${val}`);
-    }
-  });
+
+  const value = decodeBase62(part.text);
+  if (!Number.isSafeInteger(value)) {
+    throw new BuildDecodeError(kind, `The ${name} "${part.text}" is too large`, part.position);
+  }
+  return value;
 }
 
 /**
- * Parses branch-grouped custom compact string back to array format
- * Format: yellow,orange,blue;yellow,orange,blue;yellow,orange,blue[;owned]
- * Returns: [tree1_branches[], tree2_branches[], tree3_branches[], owned]
- *   where each tree_branches is [yellow[], orange[], blue[]]
- * Pads missing trees and branches, defaults owned to 0
+ * Parses branch-grouped custom compact string back to per tree, per branch node levels
+ * Format: branch,branch,...;branch,branch,...;...[;owned]
+ * Pads missing trees and branches to the layouts, defaults owned to 0
+ * @param serialized The serialized build part (without version marker)
+ * @param layouts Node layout of each tree, in tree order
+ * @throws BuildDecodeError if the build part is invalid or does not fit the layouts
  */
-function parseArrayFormat(serialized: string): [number[][][], number] {
+function parseArrayFormat(
+  serialized: PositionedText,
+  layouts: TreeLayout[],
+): ParsedBuild {
   // Handle special marker for empty build
-  if (serialized === EMPTY_BUILD_MARKER) {
-    return [[[[], [], []], [[], [], []], [[], [], []]], 0];
+  if (serialized.text === EMPTY_BUILD_MARKER) {
+    return { trees: layouts.map((layout) => layout.map(() => [])), owned: 0 };
   }
 
-  const segments = serialized.split(SEPARATOR_TREE);
+  const segments = splitWithPositions(serialized, SEPARATOR_TREE);
   let owned = 0;
-  let treeSegments: string[];
+  let treeSegments = segments;
 
   // Strict positional order: trees first, then owned at the end
-  // If there are multiple segments and the last one has no separators, it must be owned
-  if (segments.length > 1) {
-    const lastSegment = segments[segments.length - 1];
-    // owned must be a single base62 number with no branch, node, or RLE tree count separators
-    if (!lastSegment.includes(SEPARATOR_BRANCH) && !lastSegment.includes(SEPARATOR_NODE_VALUE) && !lastSegment.includes(SEPARATOR_RLE_TREE_COUNT) && lastSegment !== "") {
-      try {
-        owned = decodeBase62(lastSegment);
-      } catch (error) {
-        throw new Error(`Invalid owned value: ${lastSegment}`);
-      }
-      treeSegments = segments.slice(0, -1);
-    } else {
-      treeSegments = segments;
-    }
-  } else if (segments.length === 1) {
-    // Single segment: could be empty build marker, owned value (empty build with owned), or a tree
-    const singleSegment = segments[0];
-
-    // If it's the empty build marker, handle it
-    if (singleSegment === EMPTY_BUILD_MARKER) {
-      treeSegments = [];
-    } else if (!singleSegment.includes(SEPARATOR_BRANCH) && !singleSegment.includes(SEPARATOR_NODE_VALUE) && !singleSegment.includes(SEPARATOR_RLE_TREE_COUNT) && singleSegment !== "") {
-      // Single segment with no separators (no ,, ., or :)
-      // The encoder now produces ";owned" for empty builds with owned > 0, so a single segment
-      // with no separators can only be a single tree value in yellow branch.
-      // (Empty builds with owned are now encoded as ";owned" which becomes multiple segments)
-      treeSegments = segments; // Treat as tree value (yellow branch)
-    } else {
-      // Has separators (, ., or :), must be a tree segment
-      treeSegments = segments;
-    }
-  } else {
-    treeSegments = segments;
+  // If there are multiple segments and the last one is a bare base62 number, it must be owned
+  // (a single segment is always a tree; the encoder produces ";owned" for empty builds)
+  const lastSegment = segments[segments.length - 1];
+  if (segments.length > 1 && isOwnedSegment(lastSegment.text)) {
+    owned = parseBase62Value(lastSegment, "invalid_owned", "Tech Crystals owned value");
+    treeSegments = segments.slice(0, -1);
   }
 
   // Expand tree-level RLE (treeString:count format, count may be base62)
-  const expandedTreeSegments: string[] = [];
+  const expandedTreeSegments: PositionedText[] = [];
   for (const segment of treeSegments) {
-    // Colon is not a special regex character, but we escape it for clarity
-    const escapedRleTreeCountSeparator = SEPARATOR_RLE_TREE_COUNT.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const treeRLEMatch = segment.match(new RegExp(`^(.+)${escapedRleTreeCountSeparator}([0-9a-zA-Z]+)$`));
-    if (treeRLEMatch) {
-      const treeString = treeRLEMatch[1];
-      const countStr = treeRLEMatch[2];
-      const count = parseRLECount(countStr, segment);
-      // Expand the tree repetition
-      expandedTreeSegments.push(...Array(count).fill(treeString));
-    } else {
-      expandedTreeSegments.push(segment);
+    const [treePart, count] = parseRepeatPattern(segment, SEPARATOR_RLE_TREE_COUNT);
+    if (expandedTreeSegments.length + count > layouts.length) {
+      throw new BuildDecodeError(
+        "tree_count",
+        `Build has more than ${layouts.length} trees`,
+        segment.position,
+      );
+    }
+    for (let i = 0; i < count; i++) {
+      expandedTreeSegments.push(treePart);
     }
   }
 
-  // Pad missing trailing trees to 3
-  while (expandedTreeSegments.length < 3) {
-    expandedTreeSegments.push("");
-  }
-
-  // Parse tree segments into branch arrays
-  const treeBranchArrays: number[][][] = expandedTreeSegments.map((segment) => {
-    if (segment === "") {
-      return [[], [], []];
+  // Parse tree segments into branch arrays, padding missing trailing trees and branches
+  const trees = layouts.map((layout, treeIndex) => {
+    const segment = expandedTreeSegments[treeIndex];
+    if (!segment || segment.text === "") {
+      return layout.map(() => []);
     }
 
-    const branchSegments = segment.split(SEPARATOR_BRANCH);
-    // Pad missing trailing branches to 3
-    while (branchSegments.length < 3) {
-      branchSegments.push("");
+    const branchSegments = splitWithPositions(segment, SEPARATOR_BRANCH);
+    if (branchSegments.length > layout.length) {
+      throw new BuildDecodeError(
+        "branch_count",
+        `Tree ${treeIndex + 1} has more than ${layout.length} branches`,
+        branchSegments[layout.length].position,
+      );
     }
 
-    return branchSegments.slice(0, 3).map(parseBranchSegment);
+    return layout.map((nodeIds, branchIndex) => {
+      const branchSegment = branchSegments[branchIndex];
+      return branchSegment
+        ? parseBranchSegment(branchSegment, nodeIds.length, treeIndex, branchIndex)
+        : [];
+    });
   });
 
-  return [treeBranchArrays, owned];
+  return { trees, owned };
 }
 
 /**
@@ -631,25 +663,29 @@ function truncateTrailingZeros(arr: number[]): number[] {
 
 /**
  * Converts tree levels from object format to branch-grouped array format
- * Groups nodes by branch (yellow, orange, blue) instead of circular order
+ * Groups nodes by branch instead of circular order
  * @param trees Array of tree levels as Record<string, number>
- * @returns Array format: [tree1_branches[], tree2_branches[], tree3_branches[], owned]
- *   where each tree_branches is [yellow[], orange[], blue[]]
+ * @param owned Number of tech crystals owned
+ * @param layouts Node layout of each tree, in tree order
+ * @returns Array format: [tree_branches[] per tree, owned]
+ *   where each tree_branches has one value array per branch root
  */
 function convertTreesToArrayFormat(
   trees: Record<string, number>[],
   owned: number,
+  layouts: TreeLayout[],
 ): [number[][][], number] {
-  const mapping = getBranchMapping();
-  const branchKeys: BranchType[] = ["yellow", "orange", "blue"];
-
   // Convert each tree to branch-grouped format
-  const treeBranchArrays: number[][][] = trees.map((tree) => {
-    // Create branch arrays: [yellow[], orange[], blue[]]
-    const branches: number[][] = branchKeys.map((branchKey) => {
-      const nodeIds = mapping[branchKey];
-      return nodeIds.map((nodeId) => tree[nodeId] ?? 0);
-    });
+  const treeBranchArrays: number[][][] = trees.map((tree, treeIndex) => {
+    const layout = layouts[treeIndex];
+    if (!layout) {
+      throw new Error(`No tree layout for tree ${treeIndex}`);
+    }
+
+    // Create one value array per branch
+    const branches: number[][] = layout.map((nodeIds) =>
+      nodeIds.map((nodeId) => tree[nodeId] ?? 0),
+    );
 
     // Truncate trailing zeros from each branch
     return branches.map(truncateTrailingZeros);
@@ -659,133 +695,466 @@ function convertTreesToArrayFormat(
 }
 
 /**
- * Converts tree levels from branch-grouped array format back to object format
- * Maps branch arrays back to node positions using branch mapping
- * @param arrayFormat Array format: [tree1_branches[], tree2_branches[], tree3_branches[], owned]
- *   where each tree_branches is [yellow[], orange[], blue[]]
+ * Converts parsed node levels back to object format
+ * Maps branch arrays back to node positions using the tree layouts
+ * @param parsed Parsed node levels per tree, per branch
+ * @param layouts Node layout of each tree, in tree order
+ * @param trees Node definitions of each tree (for maxLevel checks)
+ * @param allowOverMaxLevel Keep levels above maxLevel instead of rejecting them
  * @returns BuildData with object format
+ * @throws BuildDecodeError if a level is above its node's maxLevel
  */
 function convertArrayFormatToTrees(
-  arrayFormat: unknown,
+  parsed: ParsedBuild,
+  layouts: TreeLayout[],
+  trees: EncoderTree[],
+  allowOverMaxLevel: boolean,
 ): BuildData {
-  // Validate input is an array with at least 4 elements (3 trees + owned)
-  if (!Array.isArray(arrayFormat) || arrayFormat.length < 4) {
-    throw new Error("Invalid array format: must have at least 4 elements (3 trees + owned)");
-  }
+  const buildTrees: Record<string, number>[] = parsed.trees.map((treeBranches, treeIndex) => {
+    const layout = layouts[treeIndex];
+    const nodeById = new Map((trees[treeIndex]?.nodes ?? []).map((node) => [node.id, node]));
+    const tree: Record<string, number> = {};
 
-  // Extract owned value (last element must be a number)
-  const lastElement = arrayFormat[arrayFormat.length - 1];
-  if (typeof lastElement !== "number") {
-    throw new Error("Invalid array format: last element must be a number (owned)");
-  }
+    // Map each branch's nodes to the tree object
+    treeBranches.forEach((branch, branchIndex) => {
+      const nodeIds = layout[branchIndex];
+      branch.forEach(({ value, position }, i) => {
+        const nodeId = nodeIds[i];
+        const node = nodeById.get(nodeId);
+        if (node && value > node.maxLevel && !allowOverMaxLevel) {
+          throw new BuildDecodeError(
+            "level_over_max",
+            `${node.label ?? node.id} level ${value} is above its max level ${node.maxLevel}`,
+            position,
+          );
+        }
+        tree[nodeId] = value;
+      });
+    });
 
-  // Format: [tree1_branches[], tree2_branches[], tree3_branches[], owned]
-  const treeBranchArrays = arrayFormat.slice(0, -1) as number[][][];
-  const owned = lastElement;
+    // Note: nodes beyond branch array lengths are implicitly 0, so we don't need to set them
+    return tree;
+  });
 
-  // Validate we have exactly 3 trees
-  if (treeBranchArrays.length !== 3) {
-    throw new Error(`Invalid array format: expected 3 trees, got ${treeBranchArrays.length}`);
+  return { trees: buildTrees, owned: parsed.owned };
+}
+
+/**
+ * Computes the checksum of a share code (32-bit FNV-1a, as fixed-length base62)
+ * @param code The share code without its checksum segment
+ * @returns CHECKSUM_LENGTH base62 characters
+ */
+function computeChecksum(code: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
   }
+  return encodeBase62(hash % 62 ** CHECKSUM_LENGTH).padStart(CHECKSUM_LENGTH, "0");
+}
 
-  const mapping = getBranchMapping();
+/**
+ * Gets the maxLevel of every node of a tree, for the binary format bit widths
+ * @param tree The tree definition
+ */
+function getTreeMaxLevels(tree: EncoderTree): Record<string, number> {
+  return Object.fromEntries(tree.nodes.map((node) => [node.id, node.maxLevel]));
+}
 
-  // Convert each tree's branch arrays back to object format
-  const trees: Record<string, number>[] = treeBranchArrays.map((treeBranches, treeIndex) => {
-    if (!Array.isArray(treeBranches)) {
-      throw new Error(`Invalid array format: tree ${treeIndex} is not an array`);
-    }
+/**
+ * Packs build data into the binary format (base64url)
+ * Layout: owned bit width (OWNED_WIDTH_BITS), owned, then every node level in
+ * layout order using the bits its maxLevel needs
+ * @param trees Array of tree levels as Record<string, number>
+ * @param owned Number of tech crystals owned
+ * @param layouts Node layout of each tree, in tree order
+ * @param maxLevels Node maxLevels of each tree, in tree order
+ * @returns The base64url build data
+ * @throws Error if a level does not fit its node's bits (above maxLevel)
+ */
+function packBinaryFormat(
+  trees: Record<string, number>[],
+  owned: number,
+  layouts: TreeLayout[],
+  maxLevels: Record<string, number>[],
+): string {
+  if (trees.length > layouts.length) {
+    throw new Error(`No tree layout for tree ${layouts.length}`);
+  }
+
+  const writer = createBitWriter();
+  const ownedWidth = getBitWidth(owned);
+  writer.write(ownedWidth, OWNED_WIDTH_BITS);
+  writer.write(owned, ownedWidth);
 
-    // Validate branches structure: [yellow[], orange[], blue[]]
-    if (treeBranches.length !== 3) {
-      throw new Error(`Invalid array format: tree ${treeIndex} must have 3 branches, got ${treeBranches.length}`);
+  layouts.forEach((layout, treeIndex) => {
+    const tree = trees[treeIndex] ?? {};
+    for (const nodeIds of layout) {
+      for (const nodeId of nodeIds) {
+        writer.write(tree[nodeId] ?? 0, getBitWidth(maxLevels[treeIndex]?.[nodeId] ?? 0));
+      }
     }
+  });
 
-    const [yellowBranch, orangeBranch, blueBranch] = treeBranches;
+  return writer.toBase64Url();
+}
 
-    // Validate each branch is an array
-    if (!Array.isArray(yellowBranch) || !Array.isArray(orangeBranch) || !Array.isArray(blueBranch)) {
-      throw new Error(`Invalid array format: tree ${treeIndex} branches must be arrays`);
-    }
+/**
+ * Unpacks binary format build data (see packBinaryFormat) into per tree, per branch node levels
+ * @param packed The base64url build data
+ * @param layouts Node layout of each tree, in tree order
+ * @param maxLevels Node maxLevels of each tree, in tree order
+ * @throws BuildDecodeError if the build data is invalid or longer than the layouts need
+ */
+function unpackBinaryFormat(
+  packed: PositionedText,
+  layouts: TreeLayout[],
+  maxLevels: Record<string, number>[],
+): ParsedBuild {
+  if (!BASE64URL_PATTERN.test(packed.text)) {
+    const invalidIndex = packed.text.search(/[^A-Za-z0-9_-]/);
+    throw new BuildDecodeError(
+      "invalid_character",
+      `Invalid character "${packed.text[invalidIndex]}"`,
+      packed.position + invalidIndex,
+    );
+  }
 
-    const tree: Record<string, number> = {};
-    const branchKeys: BranchType[] = ["yellow", "orange", "blue"];
-    const branches = [yellowBranch, orangeBranch, blueBranch];
+  const reader = createBitReader(packed.text);
+  const ownedWidth = reader.read(OWNED_WIDTH_BITS);
+  const ownedPosition = packed.position + reader.charIndex;
+  const owned = reader.read(ownedWidth);
+  if (!Number.isSafeInteger(owned)) {
+    throw new BuildDecodeError("invalid_owned", "The Tech Crystals owned value is too large", ownedPosition);
+  }
 
-    // Map each branch's nodes to the tree object
-    branchKeys.forEach((branchKey, branchIndex) => {
-      const branch = branches[branchIndex];
-      const nodeIds = mapping[branchKey];
-      branch.forEach((value, i) => {
-        if (i < nodeIds.length) {
-          if (typeof value !== "number") {
-            throw new Error(
-              `Invalid array format: tree ${treeIndex}, ${branchKey} branch, index ${i} is not a number`
-            );
-          }
-          tree[nodeIds[i]] = value;
-        }
-      });
-    });
+  const trees = layouts.map((layout, treeIndex) =>
+    layout.map((nodeIds) =>
+      nodeIds.map((nodeId) => {
+        const position = packed.position + reader.charIndex;
+        const value = reader.read(getBitWidth(maxLevels[treeIndex]?.[nodeId] ?? 0));
+        return { value, position };
+      }),
+    ),
+  );
 
-    // Note: nodes beyond branch array lengths are implicitly 0, so we don't need to set them
-    return tree;
-  });
+  if (packed.text.length > reader.charsRead) {
+    throw new BuildDecodeError(
+      "malformed",
+      "Build data is longer than expected",
+      packed.position + reader.charsRead,
+    );
+  }
 
   return { trees, owned };
 }
 
+/**
+ * Joins share code segments and inserts a checksum segment after the version
+ * @param version The encoded format version
+ * @param segments Tagged segments and build data (build data last)
+ */
+function joinSegmentsWithChecksum(version: string, segments: string[]): string {
+  const checksum = computeChecksum([version, ...segments].join(SEPARATOR_SEGMENT));
+  return [version, `${SEGMENT_TAG_CHECKSUM}${checksum}`, ...segments].join(SEPARATOR_SEGMENT);
+}
+
+/**
+ * Encodes the target levels above the build's levels in the text format
+ * @param buildData The build with its targets
+ * @param layouts Node layout of each tree, in tree order
+ * @returns The segment value, or null if no node has a target above its level
+ */
+function encodeTargetsSegment(buildData: BuildData, layouts: TreeLayout[]): string | null {
+  if (!buildData.targets) return null;
+
+  const targets = buildData.trees.map((levels, treeIndex) =>
+    Object.fromEntries(
+      Object.entries(buildData.targets?.[treeIndex] ?? {}).filter(
+        ([nodeId, target]) => target > (levels[nodeId] ?? 0),
+      ),
+    ),
+  );
+  if (targets.every((tree) => Object.keys(tree).length === 0)) return null;
+
+  const [treeArrays] = convertTreesToArrayFormat(targets, 0, layouts);
+  return serializeArrayFormat(treeArrays, 0);
+}
+
 /**
  * Encodes build data into a serialized string for URL sharing
- * Uses compact branch-based format with truncated trailing zeros
- * Returns the serialized string directly (all characters are URL-safe, no base64 encoding needed)
+ * The text format uses compact branch-based values with truncated trailing zeros;
+ * the binary format packs each level into the bits its node's maxLevel needs.
+ * Codes are prefixed with the format version, a checksum, and the metadata and targets, if any:
+ * {version}~c{checksum}~[m{metadata}~][t{targets}~]{build} (text) or
+ * {version}~c{checksum}~[m{metadata}~][t{targets}~]b~{build} (binary)
+ * Returns the serialized string directly (all characters are URL-safe, no percent-encoding needed)
+ * @param buildData The build to encode
+ * @param trees Node definitions of each tree, in tree order (defaults to the backpack trees)
+ * @param format Representation to use; "auto" picks the shorter one (text on ties or when
+ *   a level does not fit the binary format)
+ */
+export function encodeBuildData(
+  buildData: BuildData,
+  trees: EncoderTree[] = backpackTrees,
+  format: EncodeFormat = "auto",
+): string {
+  const layouts = trees.map(getTreeLayout);
+  const version = encodeBase62(BUILD_FORMAT_VERSION);
+  const metadata = encodeMetadataSegment(buildData.meta);
+  const metadataSegments = metadata === null ? [] : [`${SEGMENT_TAG_METADATA}${metadata}`];
+  const targets = encodeTargetsSegment(buildData, layouts);
+  if (targets !== null) {
+    metadataSegments.push(`${SEGMENT_TAG_TARGETS}${targets}`);
+  }
+  let textCode: string | null = null;
+  let binaryCode: string | null = null;
+
+  if (format !== "binary") {
+    const [treeArrays, owned] = convertTreesToArrayFormat(buildData.trees, buildData.owned, layouts);
+    textCode = joinSegmentsWithChecksum(version, [
+      ...metadataSegments,
+      serializeArrayFormat(treeArrays, owned),
+    ]);
+  }
+
+  if (format !== "text") {
+    try {
+      const packed = packBinaryFormat(
+        buildData.trees,
+        buildData.owned,
+        layouts,
+        trees.map(getTreeMaxLevels),
+      );
+      binaryCode = joinSegmentsWithChecksum(version, [
+        ...metadataSegments,
+        SEGMENT_TAG_BINARY,
+        packed,
+      ]);
+    } catch (error) {
+      if (format === "binary") throw error;
+    }
+  }
+
+  if (textCode !== null && (binaryCode === null || textCode.length <= binaryCode.length)) {
+    return textCode;
+  }
+  return binaryCode!;
+}
+
+/**
+ * Share code split into its segments
  */
-export function encodeBuildData(buildData: BuildData): string {
-  const [treeArrays, owned] = convertTreesToArrayFormat(buildData.trees, buildData.owned);
-  const serialized = serializeArrayFormat(treeArrays, owned);
+type CodeSegments = {
+  version: number;
+  tagged: Map<string, PositionedText>; // Segment values (without tag) by tag
+  build: PositionedText;
+};
+
+/**
+ * Splits a serialized string into format version, tagged segments and build part
+ * @param encoded The serialized build string
+ * @returns The segments (version 0 and no tagged segments if unversioned)
+ * @throws BuildDecodeError if the version marker or a tagged segment is invalid
+ */
+function splitSegments(encoded: string): CodeSegments {
+  const segments = splitWithPositions({ text: encoded, position: 0 }, SEPARATOR_SEGMENT);
+  if (segments.length === 1) {
+    return { version: 0, tagged: new Map(), build: segments[0] };
+  }
+
+  const [versionSegment, ...rest] = segments;
+  if (versionSegment.text === "") {
+    throw new BuildDecodeError("invalid_version", "Missing format version", 0);
+  }
+  const version = parseBase62Value(versionSegment, "invalid_version", "format version");
+
+  const build = rest.pop()!;
+  const tagged = new Map<string, PositionedText>();
+  for (const segment of rest) {
+    const tag = segment.text.charAt(0);
+    if (!SEGMENT_TAGS.includes(tag) || tagged.has(tag)) {
+      throw new BuildDecodeError(
+        "malformed",
+        segment.text === "" ? "Empty segment" : `Unexpected segment "${segment.text}"`,
+        segment.position,
+      );
+    }
+    tagged.set(tag, { text: segment.text.slice(1), position: segment.position + 1 });
+  }
 
-  return serialized;
+  return { version, tagged, build };
 }
 
 /**
- * Safely executes a function and logs errors, returning null on failure
- * @param fn Function to execute
- * @param errorMessage Error message prefix for logging
- * @returns Function result or null if error occurred
+ * Verifies the checksum segment of a share code, if it has one
+ * @param encoded The serialized build string
+ * @param segments The split share code
+ * @throws BuildDecodeError if the checksum does not match (the code was cut off or edited)
  */
-function safeExecute<T>(
-  fn: () => T,
-  errorMessage: string
-): T | null {
-  try {
-    return fn();
-  } catch (error) {
-    return null;
+function verifyChecksum(encoded: string, segments: CodeSegments): void {
+  const checksum = segments.tagged.get(SEGMENT_TAG_CHECKSUM);
+  if (!checksum) return;
+
+  // Checksum covers the code with its checksum segment (tag included) removed
+  const segmentStart = checksum.position - SEGMENT_TAG_CHECKSUM.length - SEPARATOR_SEGMENT.length;
+  const unchecked =
+    encoded.slice(0, segmentStart) + encoded.slice(checksum.position + checksum.text.length);
+  if (checksum.text !== computeChecksum(unchecked)) {
+    throw new BuildDecodeError(
+      "corrupted",
+      "Build code is damaged (checksum mismatch), it may have been cut off or edited",
+      checksum.position,
+    );
   }
 }
 
 /**
- * Decodes a serialized string back into build data
+ * Gets the node maxLevels a format version's binary codes were encoded with
+ * @param version The format version
+ * @param trees Node definitions of each tree (used for the current version)
+ * @throws BuildDecodeError if the version's maxLevels are unknown
  */
-export function decodeBuildData(encoded: string): BuildData | null {
-  if (!SERIALIZED_PATTERN.test(encoded)) {
-    return null;
+function getMaxLevelsForVersion(
+  version: number,
+  trees: EncoderTree[],
+): Record<string, number>[] {
+  if (version === BUILD_FORMAT_VERSION) {
+    return trees.map(getTreeMaxLevels);
   }
 
-  const parsed = safeExecute(
-    () => parseArrayFormat(encoded),
-    "Failed to parse array format"
-  );
-  if (!parsed) return null;
+  const maxLevels = LEGACY_MAX_LEVELS[version];
+  if (!maxLevels) {
+    throw new BuildDecodeError(
+      "unsupported_version",
+      `Binary build codes are not supported for format version ${version}`,
+      0,
+    );
+  }
+  return maxLevels;
+}
 
-  const [treeArrays, owned] = parsed;
-  const arrayFormat = [...treeArrays, owned];
+/**
+ * Gets the node layouts a format version was encoded with
+ * @param version The format version
+ * @param trees Node definitions of each tree (used for the current version)
+ * @throws BuildDecodeError if the version is unknown
+ */
+function getLayoutsForVersion(version: number, trees: EncoderTree[]): TreeLayout[] {
+  if (version === BUILD_FORMAT_VERSION) {
+    return trees.map(getTreeLayout);
+  }
 
-  const buildData = safeExecute(
-    () => convertArrayFormatToTrees(arrayFormat),
-    "Failed to convert array format to trees"
-  );
-  if (!buildData) return null;
+  const layouts = LEGACY_LAYOUTS[version];
+  if (!layouts) {
+    throw new BuildDecodeError(
+      "unsupported_version",
+      version > BUILD_FORMAT_VERSION
+        ? "Build code was made with a newer version of the planner"
+        : `Unknown format version ${version}`,
+      0,
+    );
+  }
+  return layouts;
+}
 
-  return buildData;
+/**
+ * Decodes a serialized string back into build data, reporting why it failed
+ * Detects the text and binary formats from the binary segment tag.
+ * Codes with a checksum segment are verified; codes without one are still accepted.
+ * Codes made with an older format version are decoded with that version's
+ * node layout, then migrated to the current node IDs
+ * @param encoded The serialized build string
+ * @param trees Node definitions of each tree, in tree order (defaults to the backpack trees)
+ * @param options Decode options (see DecodeOptions)
+ * @returns The build data, or the error kind and position
+ */
+export function decodeBuildDataResult(
+  encoded: string,
+  trees: EncoderTree[] = backpackTrees,
+  options: DecodeOptions = {},
+): BuildDecodeResult {
+  try {
+    if (encoded === "") {
+      throw new BuildDecodeError("empty", "Build code is empty");
+    }
+
+    const invalidIndex = encoded.search(INVALID_CHARACTER_PATTERN);
+    if (invalidIndex !== -1) {
+      throw new BuildDecodeError(
+        "invalid_character",
+        `Invalid character "${encoded[invalidIndex]}"`,
+        invalidIndex,
+      );
+    }
+
+    // The encoder never ends a code with a separator, so the code was cut off
+    if (TRUNCATED_PATTERN.test(encoded)) {
+      throw new BuildDecodeError("truncated", "Build code is cut off", encoded.length - 1);
+    }
+
+    const segments = splitSegments(encoded);
+    verifyChecksum(encoded, segments);
+
+    const version = segments.version;
+    const layouts = getLayoutsForVersion(version, trees);
+    const binary = segments.tagged.get(SEGMENT_TAG_BINARY);
+    if (binary && binary.text !== "") {
+      throw new BuildDecodeError("malformed", `Unexpected segment "b${binary.text}"`, binary.position - 1);
+    }
+    const parsed = binary
+      ? unpackBinaryFormat(segments.build, layouts, getMaxLevelsForVersion(version, trees))
+      : parseArrayFormat(segments.build, layouts);
+    const buildData = convertArrayFormatToTrees(
+      parsed,
+      layouts,
+      trees,
+      options.allowOverMaxLevel ?? false,
+    );
+
+    const targets = segments.tagged.get(SEGMENT_TAG_TARGETS);
+    if (targets) {
+      buildData.targets = convertArrayFormatToTrees(
+        parseArrayFormat(targets, layouts),
+        layouts,
+        trees,
+        options.allowOverMaxLevel ?? false,
+      ).trees;
+    }
+
+    const migrated = migrateBuildData(buildData, version);
+    const metadata = segments.tagged.get(SEGMENT_TAG_METADATA);
+    if (metadata) {
+      const meta = decodeMetadataSegment(metadata.text, metadata.position);
+      if (!isBuildMetadataEmpty(meta)) {
+        migrated.meta = meta;
+      }
+    }
+
+    return { ok: true, data: migrated };
+  } catch (error) {
+    if (error instanceof BuildDecodeError) {
+      return { ok: false, error };
+    }
+    return {
+      ok: false,
+      error: new BuildDecodeError("malformed", "Build code could not be read"),
+    };
+  }
+}
+
+/**
+ * Decodes a serialized string back into build data
+ * @param encoded The serialized build string
+ * @param trees Node definitions of each tree, in tree order (defaults to the backpack trees)
+ * @param options Decode options (see DecodeOptions)
+ * @returns The build data, or null if the code is invalid (see decodeBuildDataResult for why)
+ */
+export function decodeBuildData(
+  encoded: string,
+  trees: EncoderTree[] = backpackTrees,
+  options: DecodeOptions = {},
+): BuildData | null {
+  const result = decodeBuildDataResult(encoded, trees, options);
+  return result.ok ? result.data : null;
 }
@@ -0,0 +1,125 @@
+/**
+ * Build metadata (name, notes, author) for share codes
+ * Each field is stored as base64url UTF-8 so any text stays URL-safe
+ */
+
+import { BASE64URL_PATTERN } from "./bitPacking";
+import { BuildDecodeError } from "./decodeError";
+
+/**
+ * Optional descriptive fields of a build
+ */
+export type BuildMetadata = {
+  name?: string;
+  notes?: string;
+  author?: string;
+};
+
+/**
+ * Maximum length of each field in characters (longer values are cut off)
+ */
+export const BUILD_METADATA_LIMITS: Readonly<Record<keyof BuildMetadata, number>> = {
+  name: 40,
+  notes: 200,
+  author: 24,
+};
+
+/**
+ * Field order in the metadata segment
+ */
+const METADATA_FIELDS: (keyof BuildMetadata)[] = ["name", "notes", "author"];
+
+/**
+ * Separates the fields in the metadata segment (not part of base64url)
+ */
+const SEPARATOR_FIELD = ".";
+
+/**
+ * Trims each field, cuts it to its length limit and drops empty fields
+ * @param metadata The metadata to normalize (not modified)
+ * @returns Metadata with only non-empty fields
+ */
+export function normalizeBuildMetadata(metadata: BuildMetadata | null | undefined): BuildMetadata {
+  const normalized: BuildMetadata = {};
+  for (const field of METADATA_FIELDS) {
+    const value = metadata?.[field];
+    if (typeof value !== "string") continue;
+    const trimmed = Array.from(value.trim()).slice(0, BUILD_METADATA_LIMITS[field]).join("").trim();
+    if (trimmed !== "") {
+      normalized[field] = trimmed;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Checks whether metadata has no non-empty fields
+ */
+export function isBuildMetadataEmpty(metadata: BuildMetadata | null | undefined): boolean {
+  return METADATA_FIELDS.every((field) => !metadata?.[field]?.trim());
+}
+
+/**
+ * Encodes text as base64url UTF-8 (without padding)
+ */
+function encodeBase64UrlText(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes base64url UTF-8 text
+ * @throws Error if the text is not valid base64url or UTF-8
+ */
+function decodeBase64UrlText(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+/**
+ * Encodes metadata as a share code segment value: {name}.{notes}.{author}
+ * Trailing empty fields are omitted
+ * @param metadata The metadata to encode
+ * @returns The segment value, or null if the metadata is empty
+ */
+export function encodeMetadataSegment(metadata: BuildMetadata | null | undefined): string | null {
+  const normalized = normalizeBuildMetadata(metadata);
+  const values = METADATA_FIELDS.map((field) => encodeBase64UrlText(normalized[field] ?? ""));
+  while (values.length > 0 && values[values.length - 1] === "") {
+    values.pop();
+  }
+  return values.length > 0 ? values.join(SEPARATOR_FIELD) : null;
+}
+
+/**
+ * Decodes a metadata segment value
+ * @param segment The segment value (without its tag)
+ * @param position Position of the segment value in the share code (for errors)
+ * @returns The decoded metadata
+ * @throws BuildDecodeError if a field is malformed
+ */
+export function decodeMetadataSegment(segment: string, position: number): BuildMetadata {
+  const values = segment.split(SEPARATOR_FIELD);
+  if (values.length > METADATA_FIELDS.length) {
+    throw new BuildDecodeError("invalid_metadata", "Build details have too many fields", position);
+  }
+
+  const metadata: BuildMetadata = {};
+  let fieldPosition = position;
+  values.forEach((value, index) => {
+    let text: string;
+    try {
+      if (!BASE64URL_PATTERN.test(value)) throw new Error("Invalid base64url");
+      text = decodeBase64UrlText(value);
+    } catch {
+      throw new BuildDecodeError("invalid_metadata", "Build details could not be read", fieldPosition);
+    }
+    metadata[METADATA_FIELDS[index]] = text;
+    fieldPosition += value.length + SEPARATOR_FIELD.length;
+  });
+
+  return normalizeBuildMetadata(metadata);
+}
@@ -0,0 +1,206 @@
+/**
+ * Build validation and repair
+ * Decoded builds can hold states the planner never produces itself: levels above
+ * a node's maxLevel, or leveled nodes whose parents are still at level 0.
+ * Repair mirrors Tree.svelte: levels are clamped to maxLevel and level-0 parents
+ * of leveled nodes are auto-leveled to 1 (like levelZeroParents).
+ */
+
+import type { TreeNode } from "../Tree.svelte";
+import type { BuildData } from "./encoder";
+
+/**
+ * A single change made while repairing a build
+ * - clamped: level lowered to the node's maxLevel
+ * - parent_leveled: level-0 parent of a leveled node raised to 1
+ * - reset: leveled node reset to 0 because a parent cannot be leveled
+ */
+export type BuildRepairChange = {
+  kind: "clamped" | "parent_leveled" | "reset";
+  treeIndex: number;
+  nodeId: string;
+  from: number;
+  to: number;
+};
+
+/**
+ * Result of repairing a build
+ */
+export type BuildRepairResult = {
+  data: BuildData;
+  changes: BuildRepairChange[];
+};
+
+/**
+ * Repairs the levels of a single tree
+ * @param nodes The tree's node definitions
+ * @param levels The tree's levels by node ID (not modified)
+ * @param treeIndex Tree index (for the report)
+ * @returns The repaired levels and the changes made
+ */
+function repairTreeLevels(
+  nodes: TreeNode[],
+  levels: Record<string, number>,
+  treeIndex: number,
+): { levels: Record<string, number>; changes: BuildRepairChange[] } {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const repaired = { ...levels };
+  const changes: BuildRepairChange[] = [];
+
+  // Clamp levels to 0..maxLevel
+  for (const node of nodes) {
+    const level = repaired[node.id];
+    if (level === undefined) continue;
+    const clamped = Math.min(Math.max(0, Math.floor(level)), node.maxLevel);
+    if (clamped !== level) {
+      repaired[node.id] = clamped;
+      changes.push({ kind: "clamped", treeIndex, nodeId: node.id, from: level, to: clamped });
+    }
+  }
+
+  // Returns false if a parent in the chain cannot be leveled
+  const canLevelChain = (nodeId: string, visiting: Set<string>): boolean => {
+    const node = nodeById.get(nodeId);
+    if (!node || visiting.has(nodeId)) return false;
+    if ((repaired[nodeId] ?? 0) > 0) return true;
+    if (node.maxLevel < 1) return false;
+    visiting.add(nodeId);
+    const result = (node.parentIds ?? []).every(
+      (parentId) => parentId === "root" || canLevelChain(parentId, visiting),
+    );
+    visiting.delete(nodeId);
+    return result;
+  };
+
+  const levelZeroParents = (node: TreeNode) => {
+    for (const parentId of node.parentIds ?? []) {
+      // Root is always considered leveled
+      if (parentId === "root") continue;
+      const parentNode = nodeById.get(parentId);
+      if (!parentNode || (repaired[parentId] ?? 0) > 0) continue;
+
+      repaired[parentId] = 1;
+      changes.push({ kind: "parent_leveled", treeIndex, nodeId: parentId, from: 0, to: 1 });
+      levelZeroParents(parentNode);
+    }
+  };
+
+  // Fix the parent chain of every leveled node
+  for (const node of nodes) {
+    const level = repaired[node.id] ?? 0;
+    if (level === 0) continue;
+
+    const parentsCanLevel = (node.parentIds ?? []).every(
+      (parentId) => parentId === "root" || canLevelChain(parentId, new Set([node.id])),
+    );
+    if (parentsCanLevel) {
+      levelZeroParents(node);
+    } else {
+      repaired[node.id] = 0;
+      changes.push({ kind: "reset", treeIndex, nodeId: node.id, from: level, to: 0 });
+    }
+  }
+
+  return { levels: repaired, changes };
+}
+
+/**
+ * Clamps target levels to 0..maxLevel
+ * Targets above the levels are only goals, so they are fixed without a report
+ * @returns The same array if no target changed
+ */
+function clampTargets(
+  targets: Record<string, number>[],
+  trees: { nodes: TreeNode[] }[],
+): Record<string, number>[] {
+  let changed = false;
+  const clamped = targets.map((levels, treeIndex) => {
+    const tree = trees[treeIndex];
+    if (!tree) return levels;
+    const next = { ...levels };
+    for (const node of tree.nodes) {
+      const target = next[node.id];
+      if (target === undefined) continue;
+      next[node.id] = Math.min(Math.max(0, Math.floor(target)), node.maxLevel);
+      changed ||= next[node.id] !== target;
+    }
+    return next;
+  });
+  return changed ? clamped : targets;
+}
+
+/**
+ * Validates a build against the tree definitions and repairs impossible states
+ * Trees without a definition and unknown node IDs are left untouched
+ * @param buildData The build to repair (not modified)
+ * @param trees Node definitions of each tree, in tree order
+ * @returns The repaired build and a report of what changed (empty if the build was valid)
+ */
+export function repairBuildData(
+  buildData: BuildData,
+  trees: { nodes: TreeNode[] }[],
+): BuildRepairResult {
+  const changes: BuildRepairChange[] = [];
+  const repairedTrees = buildData.trees.map((levels, treeIndex) => {
+    const tree = trees[treeIndex];
+    if (!tree) return levels;
+    const result = repairTreeLevels(tree.nodes, levels, treeIndex);
+    changes.push(...result.changes);
+    return result.changes.length > 0 ? result.levels : levels;
+  });
+
+  const targets = buildData.targets && clampTargets(buildData.targets, trees);
+  if (changes.length === 0 && targets === buildData.targets) {
+    return { data: buildData, changes };
+  }
+  return {
+    data: {
+      ...buildData,
+      trees: changes.length > 0 ? repairedTrees : buildData.trees,
+      ...(targets && { targets }),
+    },
+    changes,
+  };
+}
+
+/**
+ * Summarizes a repair report for display
+ * Lists each change when there are only a few, otherwise counts them by kind
+ * @param changes The changes made by repairBuildData
+ * @param trees Node definitions and labels of each tree, in tree order
+ * @returns A human-readable summary, e.g. "Build repaired: Guardian Attack lowered from 150 to 100"
+ */
+export function describeBuildRepair(
+  changes: BuildRepairChange[],
+  trees: { nodes: TreeNode[]; label?: string }[],
+): string {
+  if (changes.length === 0) return "Build is valid";
+
+  if (changes.length <= 2) {
+    const details = changes.map((change) => {
+      const tree = trees[change.treeIndex];
+      const node = tree?.nodes.find((candidate) => candidate.id === change.nodeId);
+      const name = [tree?.label, node?.label ?? change.nodeId].filter(Boolean).join(" ");
+      switch (change.kind) {
+        case "clamped":
+          return `${name} lowered from ${change.from} to max level ${change.to}`;
+        case "parent_leveled":
+          return `${name} leveled to 1 to unlock its children`;
+        case "reset":
+          return `${name} reset because its parents cannot be leveled`;
+      }
+    });
+    return `Build repaired: ${details.join("; ")}`;
+  }
+
+  const count = (kind: BuildRepairChange["kind"]) =>
+    changes.filter((change) => change.kind === kind).length;
+  const parts = ([
+    [count("clamped"), "levels lowered to max level"],
+    [count("parent_leveled"), "parent nodes leveled to 1"],
+    [count("reset"), "nodes reset"],
+  ] as [number, string][])
+    .filter(([amount]) => amount > 0)
+    .map(([amount, label]) => `${amount} ${label}`);
+  return `Build repaired: ${parts.join(", ")}`;
+}
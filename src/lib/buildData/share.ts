@@ -3,7 +3,9 @@
  * Handles clipboard and image sharing functionality
  */
 
+import { get } from "svelte/store";
 import { createShareUrl } from "./url";
+import { buildMetadata } from "../buildMetadataStore";
 
 /**
  * Saves the current build to a shareable URL and copies it to clipboard
@@ -42,6 +44,8 @@ export type ShareBuildUrlResult = "shared" | "copied" | "cancelled" | "failed";
 /**
  * Shares the current build URL using the Web Share API when available,
  * falling back to copying the URL to the clipboard.
+ * The build name is used as the share title when set (options.title is the fallback),
+ * and the text defaults to the build notes and author.
  *
  * Returns a status string describing what happened:
  * - "shared": Native share dialog succeeded.
@@ -59,14 +63,18 @@ export async function shareBuildUrlNative(options?: {
   }
 
   const shareUrl = createShareUrl();
+  const metadata = get(buildMetadata);
+  const defaultText = [metadata.notes, metadata.author && `by ${metadata.author}`]
+    .filter(Boolean)
+    .join(" - ");
 
   // Prefer Web Share API when available
   if (typeof navigator.share === "function") {
     try {
       await navigator.share({
         url: shareUrl,
-        title: options?.title,
-        text: options?.text,
+        title: metadata.name ?? options?.title,
+        text: options?.text ?? (defaultText || undefined),
       });
       return "shared";
     } catch (error: unknown) {
@@ -4,9 +4,14 @@
  */
 
 import type { BuildData } from "./encoder";
-import { encodeBuildData, decodeBuildData, SERIALIZED_PATTERN } from "./encoder";
+import { encodeBuildData, decodeBuildData, decodeBuildDataResult } from "./encoder";
+import { BuildDecodeError } from "./decodeError";
+import { repairBuildData } from "./repair";
+import { backpackTrees } from "../../config/backpackTrees";
 import { treeLevels } from "../treeLevelsStore";
 import { techCrystalsOwned } from "../techCrystalStore";
+import { buildMetadata } from "../buildMetadataStore";
+import { targetLevels } from "../targetLevelsStore";
 import { get } from "svelte/store";
 
 /**
@@ -150,6 +155,8 @@ export function createShareUrl(buildData?: BuildData): string {
   const data = buildData ?? {
     trees: get(treeLevels),
     owned: get(techCrystalsOwned),
+    meta: get(buildMetadata),
+    targets: get(targetLevels),
   };
   const encoded = encodeBuildData(data);
   return buildShareUrl(encoded);
@@ -158,6 +165,7 @@ export function createShareUrl(buildData?: BuildData): string {
 /**
  * Extracts build data from the current URL
  * Uses path-based routing: /{encoded}
+ * Impossible states (levels above maxLevel, unleveled parents) are repaired
  */
 export function loadBuildFromUrl(): BuildData | null {
   if (typeof window === "undefined") return null;
@@ -167,29 +175,39 @@ export function loadBuildFromUrl(): BuildData | null {
     return null;
   }
 
-  const buildData = decodeBuildData(encoded);
-  if (buildData) {
-    console.warn("[loadBuildFromUrl] Successfully loaded build data from URL:", encoded);
+  const buildData = decodeBuildData(encoded, backpackTrees, { allowOverMaxLevel: true });
+  if (!buildData) {
+    return null;
   }
-  return buildData;
+
+  console.warn("[loadBuildFromUrl] Successfully loaded build data from URL:", encoded);
+  return repairBuildData(buildData, backpackTrees).data;
 }
 
+/**
+ * Result of parsing user input into an encoded build string
+ */
+export type ParseEncodedResult =
+  | { ok: true; encoded: string }
+  | { ok: false; error: BuildDecodeError };
+
 /**
  * Parses user input (full URL or raw code) into a validated encoded build string.
  *
  * Accepts:
  * - Full Backpack Planner URL: https://.../rg-backpack-planner/{encoded}[...]
- * - Raw encoded string matching SERIALIZED_PATTERN
+ * - Raw encoded string (unversioned codes are read as format version 0)
  *
  * Returns:
- * - Encoded string if valid and decodable
- * - null otherwise
+ * - The encoded string if valid and decodable (levels above maxLevel are accepted,
+ *   preview mode repairs them when the build is loaded)
+ * - Otherwise the decode error (kind and position) explaining why
  */
-export function parseEncodedFromUserInput(input: string): string | null {
-  if (typeof input !== "string") return null;
-
-  const trimmed = input.trim();
-  if (!trimmed) return null;
+export function parseEncodedFromUserInput(input: string): ParseEncodedResult {
+  const trimmed = typeof input === "string" ? input.trim() : "";
+  if (!trimmed) {
+    return { ok: false, error: new BuildDecodeError("empty", "Paste a link or build code") };
+  }
 
   let candidate: string | null = null;
 
@@ -216,26 +234,23 @@ export function parseEncodedFromUserInput(input: string): string | null {
         candidate = segments.length > 0 ? segments[segments.length - 1] : null;
       }
     } catch {
-      candidate = null;
+      return { ok: false, error: new BuildDecodeError("no_build_in_link", "Link could not be read") };
+    }
+
+    if (!candidate) {
+      return { ok: false, error: new BuildDecodeError("no_build_in_link", "Link has no build code") };
     }
   } else {
     // Raw candidate string
     candidate = trimmed;
   }
 
-  if (!candidate) return null;
-
-  // Basic character validation (defensive; decodeBuildData also validates)
-  if (!SERIALIZED_PATTERN.test(candidate)) {
-    return null;
-  }
-
-  const buildData = decodeBuildData(candidate);
-  if (!buildData) {
-    return null;
+  const result = decodeBuildDataResult(candidate, backpackTrees, { allowOverMaxLevel: true });
+  if (!result.ok) {
+    return { ok: false, error: result.error };
   }
 
-  return candidate;
+  return { ok: true, encoded: candidate };
 }
 
 /**
@@ -256,6 +271,8 @@ export function updateUrlWithCurrentBuild(): void {
     const buildData: BuildData = {
       trees: get(treeLevels),
       owned: get(techCrystalsOwned),
+      meta: get(buildMetadata),
+      targets: get(targetLevels),
     };
 
     const encoded = encodeBuildData(buildData);
@@ -0,0 +1,118 @@
+/**
+ * Share code format versions and migrations
+ * Share codes store node levels by position, so each format version is tied to
+ * the node layout it was made with. Past layouts are frozen here so old codes
+ * keep decoding to the same nodes after the trees change.
+ *
+ * When a game update changes a tree's nodes, order or maxLevels:
+ * 1. Freeze the current layout in LEGACY_LAYOUTS and the current maxLevels in
+ *    LEGACY_MAX_LEVELS under the current version
+ * 2. Bump BUILD_FORMAT_VERSION
+ * 3. Register a migration from the previous version in BUILD_MIGRATIONS
+ *    (e.g. to rename or drop node IDs)
+ */
+
+import type { BuildData } from "./encoder";
+
+/**
+ * Node IDs of each branch of a tree, in branch order then node order
+ */
+export type TreeLayout = string[][];
+
+/**
+ * Migrates decoded build data from one format version to the next
+ */
+export type BuildMigration = (buildData: BuildData) => BuildData;
+
+/**
+ * Current share code format version (written by encodeBuildData)
+ * Codes without a version marker are version 0
+ */
+export const BUILD_FORMAT_VERSION = 1;
+
+/**
+ * Version 0 layout: baseTree grouped by branch (attack, defense, hp)
+ * Every tree used the same layout
+ */
+const V0_TREE_LAYOUT: TreeLayout = [
+  [
+    "attack",
+    "hp_1_1",
+    "ignore_dodge_1_1",
+    "skill_critical_res_1_1",
+    "global_def_1_1",
+    "def_1_2",
+    "dodge_1_2",
+    "ignore_stun_1_2",
+    "global_hp_1_2",
+    "final_1",
+  ],
+  [
+    "defense",
+    "hp_2_1",
+    "dodge_2_1",
+    "skill_crit_res_2_1",
+    "global_hp_2_1",
+    "attack_2_2",
+    "ignore_dodge_2_2",
+    "damage_reflection_2_2",
+    "global_attack_2_2",
+    "final_2",
+  ],
+  [
+    "hp",
+    "attack_3_1",
+    "dodge_3_1",
+    "damage_reflection_3_1",
+    "global_attack_3_1",
+    "def_3_2",
+    "ignore_dodge_3_2",
+    "ignore_stun_3_2",
+    "global_def_3_2",
+    "final_3",
+  ],
+];
+
+/**
+ * Frozen node layouts of past format versions, one layout per tree
+ */
+export const LEGACY_LAYOUTS: Readonly<Record<number, TreeLayout[]>> = {
+  0: [V0_TREE_LAYOUT, V0_TREE_LAYOUT, V0_TREE_LAYOUT],
+};
+
+/**
+ * Frozen node maxLevels of past format versions, one lookup (node ID -> maxLevel) per tree
+ * Binary share codes store each level in the bits its maxLevel needs, so they can
+ * only be read with the maxLevels they were made with (version 0 had no binary codes)
+ */
+export const LEGACY_MAX_LEVELS: Readonly<Record<number, Record<string, number>[]>> = {};
+
+/**
+ * Migrations keyed by the version they migrate from
+ */
+export const BUILD_MIGRATIONS: Readonly<Record<number, BuildMigration>> = {
+  // v0 -> v1: only the version marker was added, node IDs are unchanged
+  0: (buildData) => buildData,
+};
+
+/**
+ * Migrates decoded build data to the current format version
+ * @param buildData Build data decoded with the layout of `fromVersion`
+ * @param fromVersion The format version the share code was made with
+ * @returns Build data keyed by current node IDs
+ * @throws Error if a migration step is missing
+ */
+export function migrateBuildData(
+  buildData: BuildData,
+  fromVersion: number,
+): BuildData {
+  let migrated = buildData;
+  for (let version = fromVersion; version < BUILD_FORMAT_VERSION; version++) {
+    const migration = BUILD_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Missing build migration from version ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
@@ -0,0 +1,17 @@
+import { NotePencilIcon } from "phosphor-svelte";
+import type { ComponentType } from "svelte";
+import { openModal } from "./modalStore";
+
+export function openBuildDetailsModal(onSaved?: () => void) {
+  openModal({
+    type: "buildDetails",
+    title: "BUILD DETAILS",
+    titleIcon: NotePencilIcon as unknown as ComponentType,
+    message: "Name your build so shared links are easy to tell apart.",
+    confirmLabel: "Save",
+    cancelLabel: "Cancel",
+    onConfirm: () => {
+      onSaved?.();
+    },
+  });
+}
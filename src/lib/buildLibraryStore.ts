@@ -0,0 +1,310 @@
+import { writable, get } from "svelte/store";
+import { treeLevels, setTreeLevels, type LevelsById } from "./treeLevelsStore";
+import {
+  loadTreeProgress,
+  saveTreeProgress,
+  compressTreeProgress,
+  expandTreeProgress,
+} from "./treeProgressStore";
+import {
+  techCrystalsOwned,
+  getTechCrystalsOwnedFromStorage,
+  saveTechCrystalsOwnedToStorage,
+  recalculateTechCrystalsSpent,
+} from "./techCrystalStore";
+import {
+  buildMetadata,
+  getBuildMetadataFromStorage,
+  saveBuildMetadataToStorage,
+} from "./buildMetadataStore";
+import { loadTargetLevels, saveTargetLevels, setAllTargets } from "./targetLevelsStore";
+import { normalizeBuildMetadata, type BuildMetadata } from "./buildData/metadata";
+import type { BuildData } from "./buildData/encoder";
+import { backpackTrees } from "../config/backpackTrees";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+
+const STORAGE_KEY = STORAGE_KEYS.buildLibrary;
+
+/**
+ * Name shown for builds without a name
+ */
+export const UNTITLED_BUILD_NAME = "Untitled build";
+
+/**
+ * A build saved in the library
+ * The active build is edited through the personal build storage (tree progress,
+ * target levels, tech crystals owned and build metadata keys); its library entry
+ * is only brought up to date when another build is switched to, duplicated or saved
+ * `targets` is missing in entries saved before target levels existed
+ */
+export type SavedBuild = {
+  id: string;
+  trees: LevelsById[];
+  targets?: LevelsById[];
+  owned: number;
+  meta: BuildMetadata;
+  updatedAt: number;
+};
+
+/**
+ * All saved builds and the ID of the build loaded as the personal build
+ */
+export type BuildLibrary = {
+  activeId: string;
+  builds: SavedBuild[];
+};
+
+function createId() {
+  return `build-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createEmptyTrees(): LevelsById[] {
+  return backpackTrees.map(() => ({}));
+}
+
+/**
+ * Reads the personal build from its storage keys
+ * @param id ID for the returned entry
+ */
+function readPersonalBuild(id: string): SavedBuild {
+  const trees = loadTreeProgress();
+  return {
+    id,
+    trees: trees ? compressTreeProgress(trees) : createEmptyTrees(),
+    targets: loadTargetLevels() ?? createEmptyTrees(),
+    owned: getTechCrystalsOwnedFromStorage(),
+    meta: getBuildMetadataFromStorage(),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Writes a saved build to the personal build storage keys
+ */
+function writePersonalBuild(build: SavedBuild): void {
+  saveTreeProgress(build.trees);
+  saveTargetLevels(build.targets ?? createEmptyTrees());
+  saveTechCrystalsOwnedToStorage(build.owned);
+  saveBuildMetadataToStorage(build.meta);
+}
+
+function isValidSavedBuild(build: unknown): build is SavedBuild {
+  if (typeof build !== "object" || build === null) return false;
+  const candidate = build as Partial<SavedBuild>;
+  return (
+    typeof candidate.id === "string" &&
+    Array.isArray(candidate.trees) &&
+    candidate.trees.every((tree) => typeof tree === "object" && tree !== null) &&
+    typeof candidate.owned === "number" &&
+    (candidate.targets === undefined || Array.isArray(candidate.targets))
+  );
+}
+
+/**
+ * Loads the build library from localStorage
+ * Without a saved library, the current personal build becomes its only entry
+ */
+function loadBuildLibrary(): BuildLibrary {
+  const fallback = (): BuildLibrary => {
+    const build = readPersonalBuild(createId());
+    return { activeId: build.id, builds: [build] };
+  };
+
+  if (typeof window === "undefined") {
+    return { activeId: "", builds: [] };
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return fallback();
+
+    const parsed = JSON.parse(stored) as Partial<BuildLibrary>;
+    if (!Array.isArray(parsed.builds)) return fallback();
+
+    const builds = parsed.builds.filter(isValidSavedBuild).map((build) => ({
+      ...build,
+      meta: normalizeBuildMetadata(build.meta),
+      updatedAt: typeof build.updatedAt === "number" ? build.updatedAt : 0,
+    }));
+    if (builds.length === 0) return fallback();
+
+    const activeId = builds.some((build) => build.id === parsed.activeId)
+      ? (parsed.activeId as string)
+      : builds[0].id;
+    return { activeId, builds };
+  } catch (error) {
+    console.error("Failed to load build library from localStorage:", error);
+    return fallback();
+  }
+}
+
+function saveBuildLibrary(library: BuildLibrary): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      console.warn("localStorage quota exceeded, unable to save build library");
+    } else {
+      console.error("Failed to save build library to localStorage:", error);
+    }
+  }
+}
+
+function createBuildLibraryStore() {
+  const { subscribe, set } = writable<BuildLibrary>(loadBuildLibrary());
+
+  const commit = (library: BuildLibrary) => {
+    saveBuildLibrary(library);
+    set(library);
+  };
+
+  /**
+   * Copies the personal build storage into the active library entry
+   */
+  const syncActive = (library: BuildLibrary): BuildLibrary => ({
+    ...library,
+    builds: library.builds.map((build) =>
+      build.id === library.activeId ? readPersonalBuild(build.id) : build,
+    ),
+  });
+
+  return {
+    subscribe,
+
+    /**
+     * Re-reads the library from localStorage (after another tab changed it)
+     */
+    reload: () => {
+      set(loadBuildLibrary());
+    },
+
+    /**
+     * Makes another build the personal build
+     * The personal build storage is saved to the current entry first, then
+     * overwritten with the chosen build (callers re-apply it to the stores)
+     * @returns The build switched to, or null if it does not exist
+     */
+    switchTo: (id: string): SavedBuild | null => {
+      const library = syncActive(get({ subscribe }));
+      const target = library.builds.find((build) => build.id === id);
+      if (!target) return null;
+
+      writePersonalBuild(target);
+      commit({ ...library, activeId: id });
+      return target;
+    },
+
+    /**
+     * Adds a build to the library without switching to it
+     * @param buildData Levels, targets, owned crystals and metadata (empty build if omitted)
+     * @returns The new entry
+     */
+    add: (buildData?: BuildData): SavedBuild => {
+      const library = syncActive(get({ subscribe }));
+      const build: SavedBuild = {
+        id: createId(),
+        trees: buildData ? compressTreeProgress(buildData.trees) : createEmptyTrees(),
+        targets: buildData?.targets
+          ? compressTreeProgress(buildData.targets)
+          : createEmptyTrees(),
+        owned: buildData?.owned ?? 0,
+        meta: normalizeBuildMetadata(buildData?.meta),
+        updatedAt: Date.now(),
+      };
+      commit({ ...library, builds: [...library.builds, build] });
+      return build;
+    },
+
+    /**
+     * Copies a build into a new entry right after it, named "{name} (copy)"
+     * @returns The new entry, or null if the build does not exist
+     */
+    duplicate: (id: string): SavedBuild | null => {
+      const library = syncActive(get({ subscribe }));
+      const index = library.builds.findIndex((build) => build.id === id);
+      if (index === -1) return null;
+
+      const source = library.builds[index];
+      const copy: SavedBuild = {
+        ...source,
+        id: createId(),
+        trees: source.trees.map((tree) => ({ ...tree })),
+        targets: source.targets?.map((tree) => ({ ...tree })),
+        meta: normalizeBuildMetadata({
+          ...source.meta,
+          name: `${source.meta.name ?? UNTITLED_BUILD_NAME} (copy)`,
+        }),
+        updatedAt: Date.now(),
+      };
+      const builds = library.builds.slice();
+      builds.splice(index + 1, 0, copy);
+      commit({ ...library, builds });
+      return copy;
+    },
+
+    /**
+     * Renames a build (the name is the build's metadata name)
+     * Renaming the active build also updates the personal build metadata
+     * @returns The normalized metadata of the build, or null if it does not exist
+     */
+    rename: (id: string, name: string): BuildMetadata | null => {
+      const library = syncActive(get({ subscribe }));
+      const target = library.builds.find((build) => build.id === id);
+      if (!target) return null;
+
+      const meta = normalizeBuildMetadata({ ...target.meta, name });
+      if (id === library.activeId) {
+        saveBuildMetadataToStorage(meta);
+      }
+      commit({
+        ...library,
+        builds: library.builds.map((build) =>
+          build.id === id ? { ...build, meta, updatedAt: Date.now() } : build,
+        ),
+      });
+      return meta;
+    },
+
+    /**
+     * Deletes an inactive build (the active build must be switched away from first)
+     * @returns true if the build was deleted
+     */
+    remove: (id: string): boolean => {
+      const library = get({ subscribe });
+      if (id === library.activeId) return false;
+      if (!library.builds.some((build) => build.id === id)) return false;
+
+      commit({ ...library, builds: library.builds.filter((build) => build.id !== id) });
+      return true;
+    },
+  };
+}
+
+export const buildLibrary = createBuildLibraryStore();
+
+/**
+ * Gets the display name of a saved build
+ */
+export function getSavedBuildName(build: SavedBuild): string {
+  return build.meta.name ?? UNTITLED_BUILD_NAME;
+}
+
+/**
+ * Loads a saved build into the stores (personal mode, after buildLibrary.switchTo)
+ * Sets the stores directly since switchTo already wrote the personal build storage
+ * @param build The build to show
+ */
+export function applySavedBuild(build: SavedBuild): void {
+  const levels = expandTreeProgress(build.trees, backpackTrees);
+  if (levels.length === get(treeLevels).length) {
+    levels.forEach((tree, index) => {
+      setTreeLevels(index, tree);
+    });
+  }
+  setAllTargets(build.targets);
+  techCrystalsOwned.set(build.owned);
+  buildMetadata.set(build.meta);
+  recalculateTechCrystalsSpent(get(treeLevels));
+}
@@ -0,0 +1,69 @@
+import { writable, get } from "svelte/store";
+import { isPreviewMode } from "./previewModeStore";
+import {
+  normalizeBuildMetadata,
+  isBuildMetadataEmpty,
+  type BuildMetadata,
+} from "./buildData/metadata";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+
+const STORAGE_KEY = STORAGE_KEYS.buildMetadata;
+
+/**
+ * Name, notes and author of the current build (personal or preview)
+ */
+export const buildMetadata = writable<BuildMetadata>({});
+
+/**
+ * Gets the personal build metadata from localStorage
+ * @returns The saved metadata, or an empty object if not found/invalid
+ */
+export function getBuildMetadataFromStorage(): BuildMetadata {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return {};
+    return normalizeBuildMetadata(JSON.parse(stored));
+  } catch (error) {
+    console.error("Failed to load build metadata from localStorage:", error);
+    return {};
+  }
+}
+
+/**
+ * Saves the personal build metadata to localStorage (removes the key if empty)
+ * @param metadata The metadata to save
+ */
+export function saveBuildMetadataToStorage(metadata: BuildMetadata): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const normalized = normalizeBuildMetadata(metadata);
+    if (isBuildMetadataEmpty(normalized)) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(normalized));
+    }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      console.warn("localStorage quota exceeded, unable to save build metadata");
+    } else {
+      console.error("Failed to save build metadata to localStorage:", error);
+    }
+  }
+}
+
+/**
+ * Sets the current build metadata
+ * Auto-saves to localStorage in personal mode (preview changes update the URL instead)
+ * @param metadata The new metadata (normalized before it is stored)
+ */
+export function setBuildMetadata(metadata: BuildMetadata | null | undefined): void {
+  const normalized = normalizeBuildMetadata(metadata);
+  buildMetadata.set(normalized);
+
+  if (typeof window !== "undefined" && !get(isPreviewMode)) {
+    saveBuildMetadataToStorage(normalized);
+  }
+}
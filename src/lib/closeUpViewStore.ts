@@ -1,6 +1,7 @@
 import { writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
-const STORAGE_KEY = "rg-backpack-planner-close-up-view";
+const STORAGE_KEY = STORAGE_KEYS.closeUpView;
 
 function getCloseUpView(): boolean {
   if (typeof window === "undefined") return false;
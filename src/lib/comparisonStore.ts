@@ -0,0 +1,183 @@
+import { derived, writable } from "svelte/store";
+import { treeLevels, sumLevels, type LevelsById } from "./treeLevelsStore";
+import { loadTreeProgress } from "./treeProgressStore";
+import { techCrystalsOwned, getTechCrystalsOwnedFromStorage } from "./techCrystalStore";
+import { buildMetadata, getBuildMetadataFromStorage } from "./buildMetadataStore";
+import { getTreeCost } from "./techCrystalCost";
+import {
+  STAT_LABELS,
+  STAT_TYPES,
+  formatStatValue,
+  getTreeStatTotals,
+  sumStatTotals,
+  type StatTotals,
+} from "./nodeEffects";
+import { formatNumber } from "./mathUtil";
+import type { BuildData } from "./buildData/encoder";
+import { backpackTrees } from "../config/backpackTrees";
+
+/**
+ * One side of a comparison
+ * `data` is null for the build on screen (the live stores, still editable)
+ */
+export type ComparedBuild = {
+  label: string;
+  data: BuildData | null;
+};
+
+/**
+ * Two builds being compared: the tree shows `base`, nodes show the difference to `other`
+ */
+export type BuildComparison = {
+  base: ComparedBuild;
+  other: ComparedBuild;
+};
+
+/**
+ * A comparison with the build on screen resolved to its current levels
+ */
+export type ResolvedComparison = {
+  base: { label: string; data: BuildData; isLive: boolean };
+  other: { label: string; data: BuildData; isLive: boolean };
+};
+
+export const comparison = writable<BuildComparison | null>(null);
+
+export const isComparing = derived(comparison, ($comparison) => $comparison !== null);
+
+export const resolvedComparison = derived(
+  [comparison, treeLevels, techCrystalsOwned, buildMetadata],
+  ([$comparison, $treeLevels, $owned, $meta]): ResolvedComparison | null => {
+    if (!$comparison) return null;
+    const live: BuildData = { trees: $treeLevels, owned: $owned, meta: $meta };
+    const resolve = (build: ComparedBuild) => ({
+      label: build.label,
+      data: build.data ?? live,
+      isLive: build.data === null,
+    });
+    return { base: resolve($comparison.base), other: resolve($comparison.other) };
+  },
+);
+
+/**
+ * Reads the personal build from localStorage (for comparing it while a preview is on screen)
+ */
+export function readPersonalBuildData(): BuildData {
+  return {
+    trees: loadTreeProgress(backpackTrees) ?? backpackTrees.map(() => ({})),
+    owned: getTechCrystalsOwnedFromStorage(),
+    meta: getBuildMetadataFromStorage(),
+  };
+}
+
+/**
+ * Starts comparing two builds (replaces any comparison in progress)
+ */
+export function startComparison(base: ComparedBuild, other: ComparedBuild): void {
+  comparison.set({ base, other });
+}
+
+/**
+ * Shows the other build on the tree and the difference to the current one
+ */
+export function swapComparison(): void {
+  comparison.update((current) =>
+    current ? { base: current.other, other: current.base } : current,
+  );
+}
+
+export function stopComparison(): void {
+  comparison.set(null);
+}
+
+/**
+ * Gets the level difference of every node of a tree (other minus base, zeros omitted)
+ * @param base The tree's levels in the build shown
+ * @param other The tree's levels in the build compared against
+ */
+export function getLevelDifferences(
+  base: LevelsById | null | undefined,
+  other: LevelsById | null | undefined,
+): LevelsById {
+  const differences: LevelsById = {};
+  const nodeIds = new Set([...Object.keys(base ?? {}), ...Object.keys(other ?? {})]);
+  for (const nodeId of nodeIds) {
+    const difference = (other?.[nodeId] ?? 0) - (base?.[nodeId] ?? 0);
+    if (difference !== 0) differences[nodeId] = difference;
+  }
+  return differences;
+}
+
+const formatSigned = (value: number, format: (value: number) => string) =>
+  value > 0 ? `+${format(value)}` : value < 0 ? `−${format(-value)}` : "±0";
+
+/**
+ * Formats a compared value as "base → other (difference)"
+ */
+function formatChange(
+  base: number,
+  other: number,
+  format: (value: number) => string = formatNumber,
+): string {
+  return `${format(base)} → ${format(other)} (${formatSigned(other - base, format)})`;
+}
+
+/**
+ * Gets the stat rows of a comparison, skipping stats neither build has
+ */
+function getStatChangeRows(base: StatTotals, other: StatTotals): Array<[string, string]> {
+  const rows = STAT_TYPES.filter((stat) => base[stat] !== 0 || other[stat] !== 0).map(
+    (stat): [string, string] => [
+      STAT_LABELS[stat],
+      formatChange(base[stat], other[stat], formatStatValue),
+    ],
+  );
+  return rows.length > 0 ? rows : [["No boosts", formatChange(0, 0, formatStatValue)]];
+}
+
+/**
+ * Builds the comparison table: levels, Tech Crystals and stats, in total and per tree
+ * Values read "base → other (difference)"
+ * @param base The build shown on the tree
+ * @param other The build compared against
+ * @returns Statistics-style rows (rows with an empty value are section titles)
+ */
+export function getComparisonRows(base: BuildData, other: BuildData): Array<[string, string]> {
+  const trees = backpackTrees.map((tree, index) => {
+    const baseLevels = base.trees[index];
+    const otherLevels = other.trees[index];
+    return {
+      label: tree.label,
+      levels: [sumLevels(baseLevels), sumLevels(otherLevels)],
+      spent: [getTreeCost(tree.nodes, baseLevels), getTreeCost(tree.nodes, otherLevels)],
+      stats: [
+        getTreeStatTotals(tree.nodes, baseLevels),
+        getTreeStatTotals(tree.nodes, otherLevels),
+      ],
+      changedNodes: Object.keys(getLevelDifferences(baseLevels, otherLevels)).length,
+    };
+  });
+  const total = (pick: (tree: (typeof trees)[number]) => number[], side: 0 | 1) =>
+    trees.reduce((sum, tree) => sum + pick(tree)[side], 0);
+
+  return [
+    ["Backpack", ""],
+    ["Node Levels", formatChange(total((tree) => tree.levels, 0), total((tree) => tree.levels, 1))],
+    [
+      "Tech Crystals Spent",
+      formatChange(total((tree) => tree.spent, 0), total((tree) => tree.spent, 1)),
+    ],
+    ["Tech Crystals Owned", formatChange(base.owned, other.owned)],
+    ...getStatChangeRows(
+      sumStatTotals(trees.map((tree) => tree.stats[0])),
+      sumStatTotals(trees.map((tree) => tree.stats[1])),
+    ),
+    ...trees.flatMap((tree): Array<[string, string]> => [
+      [tree.label, ""],
+      ["Changed Nodes", formatNumber(tree.changedNodes)],
+      ["Node Levels", formatChange(tree.levels[0], tree.levels[1])],
+      ["Tech Crystals Spent", formatChange(tree.spent[0], tree.spent[1])],
+      ...getStatChangeRows(tree.stats[0], tree.stats[1]),
+    ]),
+  ];
+}
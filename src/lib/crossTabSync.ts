@@ -0,0 +1,156 @@
+import { get } from "svelte/store";
+import { treeLevels, setTreeLevels, type LevelsById } from "./treeLevelsStore";
+import { loadTreeProgress, compressTreeProgress } from "./treeProgressStore";
+import {
+  techCrystalsOwned,
+  techCrystalsOwnedStorageUpdateFlag,
+  getTechCrystalsOwnedFromStorage,
+  recalculateTechCrystalsSpent,
+} from "./techCrystalStore";
+import { buildMetadata, getBuildMetadataFromStorage } from "./buildMetadataStore";
+import { buildLibrary } from "./buildLibraryStore";
+import { targetLevels, loadTargetLevels, setAllTargets } from "./targetLevelsStore";
+import { isPreviewMode } from "./previewModeStore";
+import { labelNextHistoryEntry } from "./historyStore";
+import { showToast } from "./toast";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+import type { TreeNode } from "./Tree.svelte";
+
+/**
+ * Minimum time between two conflict toasts, so one burst of changes shows one toast
+ */
+const CONFLICT_TOAST_INTERVAL_MS = 3000;
+
+let lastConflictToastAt = 0;
+
+function parseStoredLevels(value: string | null): LevelsById[] {
+  if (value === null) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as LevelsById[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Compares levels ignoring zeros (stored progress omits them)
+ */
+function isSameProgress(a: LevelsById[], b: LevelsById[]): boolean {
+  const compressedA = compressTreeProgress(a);
+  const compressedB = compressTreeProgress(b);
+  const treeCount = Math.max(compressedA.length, compressedB.length);
+  for (let index = 0; index < treeCount; index++) {
+    const levelsA = compressedA[index] ?? {};
+    const levelsB = compressedB[index] ?? {};
+    const nodeIds = new Set([...Object.keys(levelsA), ...Object.keys(levelsB)]);
+    for (const nodeId of nodeIds) {
+      if ((levelsA[nodeId] ?? 0) !== (levelsB[nodeId] ?? 0)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks whether another tab's write replaced a value this tab had not seen
+ * Every change in this tab is saved right away, so the other tab's previous
+ * value matches this tab's state unless both tabs changed the build at once
+ */
+function isConflict(event: StorageEvent): boolean {
+  if (event.key === STORAGE_KEYS.treeProgress) {
+    return !isSameProgress(parseStoredLevels(event.oldValue), get(treeLevels));
+  }
+  if (event.key === STORAGE_KEYS.techCrystalsOwned) {
+    const previous = event.oldValue === null ? 0 : parseInt(event.oldValue, 10);
+    return (isNaN(previous) ? 0 : previous) !== get(techCrystalsOwned);
+  }
+  return false;
+}
+
+function showConflictToast() {
+  const now = Date.now();
+  if (now - lastConflictToastAt < CONFLICT_TOAST_INTERVAL_MS) return;
+  lastConflictToastAt = now;
+  showToast("Your build was also changed in another tab. Showing its version, undo to get yours back", {
+    tone: "negative",
+    durationMs: 6000,
+  });
+}
+
+function applyStoredProgress(trees: { nodes: TreeNode[] }[]) {
+  const current = get(treeLevels);
+  const stored = loadTreeProgress(trees) ?? trees.map(() => ({}));
+  if (stored.length !== current.length || isSameProgress(stored, current)) return;
+
+  labelNextHistoryEntry("Change from another tab");
+  stored.forEach((levels, index) => {
+    setTreeLevels(index, levels);
+  });
+  recalculateTechCrystalsSpent(get(treeLevels));
+}
+
+function applyStoredTechCrystalsOwned() {
+  const owned = getTechCrystalsOwnedFromStorage();
+  if (owned === get(techCrystalsOwned)) return;
+
+  labelNextHistoryEntry("Change from another tab");
+  techCrystalsOwned.set(owned);
+}
+
+function applyStoredTargets() {
+  const stored = loadTargetLevels() ?? [];
+  if (isSameProgress(stored, get(targetLevels))) return;
+
+  setAllTargets(stored);
+}
+
+/**
+ * Keeps the personal build in sync with other tabs and windows of the app
+ * Listens for localStorage changes made elsewhere and applies them to the stores
+ * (saving them again is a no-op since the stored value already matches).
+ * Preview mode keeps its build; only storage-backed UI is refreshed.
+ * @param trees Node definitions per tree, used to expand stored progress
+ * @returns Function that stops syncing
+ */
+export function initCrossTabSync(trees: { nodes: TreeNode[] }[]): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  function handleStorage(event: StorageEvent) {
+    if (event.storageArea !== localStorage) return;
+
+    // key is null when another tab cleared all data
+    const key = event.key;
+    const affects = (storageKey: string) => key === null || key === storageKey;
+
+    if (affects(STORAGE_KEYS.buildLibrary)) {
+      buildLibrary.reload();
+    }
+    if (affects(STORAGE_KEYS.techCrystalsOwned)) {
+      // Disabled (preview mode) UI shows the stored personal value
+      techCrystalsOwnedStorageUpdateFlag.update((flag) => !flag);
+    }
+
+    if (get(isPreviewMode)) return;
+
+    if (isConflict(event)) {
+      showConflictToast();
+    }
+    if (affects(STORAGE_KEYS.treeProgress)) {
+      applyStoredProgress(trees);
+    }
+    if (affects(STORAGE_KEYS.targetLevels)) {
+      applyStoredTargets();
+    }
+    if (affects(STORAGE_KEYS.techCrystalsOwned)) {
+      applyStoredTechCrystalsOwned();
+    }
+    if (affects(STORAGE_KEYS.buildMetadata)) {
+      buildMetadata.set(getBuildMetadataFromStorage());
+    }
+  }
+
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+  };
+}
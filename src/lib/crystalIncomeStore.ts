@@ -0,0 +1,179 @@
+import { derived, writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+import { treeLevels, type LevelsById } from "./treeLevelsStore";
+import { targetLevels } from "./targetLevelsStore";
+import { techCrystalsAvailable } from "./techCrystalStore";
+import { upgradePlan, upgradePriority } from "./upgradePlanStore";
+import { createUpgradePlan, type UpgradeStep } from "./upgradePlan";
+import { getCostBetweenLevels } from "./techCrystalCost";
+import { backpackTrees } from "../config/backpackTrees";
+
+const STORAGE_KEY = STORAGE_KEYS.crystalIncome;
+
+export type CrystalIncomePeriod = "day" | "week";
+
+/**
+ * Expected Tech Crystal income, entered per day or per week
+ */
+export type CrystalIncome = {
+  amount: number;
+  period: CrystalIncomePeriod;
+};
+
+const DEFAULT_INCOME: CrystalIncome = { amount: 0, period: "day" };
+
+/**
+ * Checks a stored income value
+ */
+export function isCrystalIncome(value: unknown): value is CrystalIncome {
+  if (typeof value !== "object" || value === null) return false;
+  const { amount, period } = value as Record<string, unknown>;
+  return (
+    typeof amount === "number" &&
+    Number.isFinite(amount) &&
+    amount >= 0 &&
+    (period === "day" || period === "week")
+  );
+}
+
+function getCrystalIncome(): CrystalIncome {
+  if (typeof window === "undefined") return DEFAULT_INCOME;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return DEFAULT_INCOME;
+    const parsed: unknown = JSON.parse(stored);
+    return isCrystalIncome(parsed) ? parsed : DEFAULT_INCOME;
+  } catch {
+    return DEFAULT_INCOME;
+  }
+}
+
+function setCrystalIncome(value: CrystalIncome) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+}
+
+function createCrystalIncomeStore() {
+  const { subscribe, set, update } = writable(getCrystalIncome());
+
+  const save = (value: CrystalIncome) => {
+    const next = { amount: Math.max(0, Math.floor(value.amount)), period: value.period };
+    setCrystalIncome(next);
+    return next;
+  };
+
+  return {
+    subscribe,
+    set: (value: CrystalIncome) => set(save(value)),
+    setAmount: (amount: number) => update((value) => save({ ...value, amount })),
+    setPeriod: (period: CrystalIncomePeriod) => update((value) => save({ ...value, period })),
+    reset: () => set(save(DEFAULT_INCOME)),
+  };
+}
+
+export const crystalIncome = createCrystalIncomeStore();
+
+/**
+ * Income per day (weekly income is spread over 7 days)
+ */
+export const crystalIncomePerDay = derived(crystalIncome, ($income) =>
+  $income.period === "week" ? $income.amount / 7 : $income.amount,
+);
+
+/**
+ * A remaining upgrade with the day it becomes affordable
+ */
+export type ProjectedStep = UpgradeStep & {
+  /** Crystals needed for this and every earlier remaining step */
+  cumulative: number;
+  /** Affordable on this date; null without income */
+  unlocksAt: Date | null;
+};
+
+export type CrystalProjection = {
+  steps: ProjectedStep[];
+  /** Crystals needed for every remaining step */
+  total: number;
+  /** Crystals still to earn after spending what is available */
+  missing: number;
+  /** The whole build is affordable on this date; null without income */
+  completesAt: Date | null;
+};
+
+/**
+ * Gets the remaining upgrades: the unfinished steps of the upgrade plan, or
+ * without a plan the steps to the targets in the chosen priority
+ * Steps of the plan leveled part of the way only count the levels left
+ */
+function getRemainingSteps(
+  plan: UpgradeStep[] | null,
+  levels: LevelsById[],
+  createSteps: () => UpgradeStep[],
+): UpgradeStep[] {
+  if (!plan) return createSteps();
+  return plan.flatMap((step) => {
+    const level = levels[step.treeIndex]?.[step.nodeId] ?? 0;
+    if (level >= step.toLevel) return [];
+    if (level <= step.fromLevel) return [step];
+    const node = backpackTrees[step.treeIndex]?.nodes.find(
+      (candidate) => candidate.id === step.nodeId,
+    );
+    const cost = node ? getCostBetweenLevels(node, level, step.toLevel) : step.cost;
+    return [{ ...step, fromLevel: level, cost }];
+  });
+}
+
+/**
+ * Gets the date after a number of days from today (at midnight)
+ */
+function addDays(days: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+/**
+ * Projects when each remaining upgrade becomes affordable with the expected income
+ * Steps are paid in order from the available crystals first
+ */
+export const crystalProjection = derived(
+  [crystalIncomePerDay, techCrystalsAvailable, treeLevels, targetLevels, upgradePlan, upgradePriority],
+  ([$perDay, $available, $levels, $targets, $plan, $priority]): CrystalProjection => {
+    const remaining = getRemainingSteps($plan?.steps ?? null, $levels, () =>
+      createUpgradePlan(backpackTrees, $levels, $targets, $priority),
+    );
+
+    let cumulative = 0;
+    const steps = remaining.map((step): ProjectedStep => {
+      cumulative += step.cost;
+      const missing = Math.max(0, cumulative - $available);
+      return {
+        ...step,
+        cumulative,
+        unlocksAt: missing === 0 ? addDays(0) : $perDay > 0 ? addDays(Math.ceil(missing / $perDay)) : null,
+      };
+    });
+
+    return {
+      steps,
+      total: cumulative,
+      missing: Math.max(0, cumulative - $available),
+      completesAt: steps.length > 0 ? steps[steps.length - 1].unlocksAt : null,
+    };
+  },
+);
+
+/**
+ * Formats a projected date, e.g. "Today" or "Mar 4" (the year is added when it differs)
+ */
+export function formatProjectedDate(date: Date | null): string {
+  if (!date) return "No income set";
+  const today = addDays(0);
+  if (date.getTime() <= today.getTime()) return "Today";
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: date.getFullYear() === today.getFullYear() ? undefined : "numeric",
+  });
+}
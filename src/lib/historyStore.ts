@@ -0,0 +1,204 @@
+import { derived, get, writable } from "svelte/store";
+import { treeLevels, type LevelsById } from "./treeLevelsStore";
+import {
+  techCrystalsOwned,
+  setTechCrystalsOwned,
+  recalculateTechCrystalsSpent,
+} from "./techCrystalStore";
+import { showToast } from "./toast";
+import { triggerHaptic } from "./haptics";
+
+/**
+ * Maximum number of undo steps kept
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * Label used when a change was not labeled with labelNextHistoryEntry
+ */
+const DEFAULT_LABEL = "Edit";
+
+/**
+ * State recorded by the history: tree levels and Tech Crystals owned
+ */
+type HistorySnapshot = {
+  trees: LevelsById[];
+  owned: number;
+};
+
+/**
+ * One undoable change
+ */
+export type HistoryEntry = {
+  label: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+};
+
+type HistoryState = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+const history = writable<HistoryState>({ past: [], future: [] });
+
+export const canUndo = derived(history, ($history) => $history.past.length > 0);
+export const canRedo = derived(history, ($history) => $history.future.length > 0);
+
+/**
+ * Label of the change the next undo reverts (null if there is none)
+ */
+export const undoLabel = derived(
+  history,
+  ($history) => $history.past[$history.past.length - 1]?.label ?? null,
+);
+
+/**
+ * Label of the change the next redo re-applies (null if there is none)
+ */
+export const redoLabel = derived(
+  history,
+  ($history) => $history.future[$history.future.length - 1]?.label ?? null,
+);
+
+function takeSnapshot(): HistorySnapshot {
+  return { trees: get(treeLevels), owned: get(techCrystalsOwned) };
+}
+
+function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  if (a.owned !== b.owned || a.trees.length !== b.trees.length) return false;
+  return a.trees.every((levels, index) => {
+    const other = b.trees[index];
+    if (levels === other) return true;
+    const nodeIds = new Set([...Object.keys(levels), ...Object.keys(other)]);
+    return [...nodeIds].every((nodeId) => (levels[nodeId] ?? 0) === (other[nodeId] ?? 0));
+  });
+}
+
+// Last recorded state, the "before" of the next entry
+let baseline: HistorySnapshot = takeSnapshot();
+let pendingLabel: string | null = null;
+let isCommitQueued = false;
+let isApplyingHistory = false;
+
+/**
+ * Records the changes made since the baseline as one entry
+ * Runs in a microtask, so store updates made in the same task (e.g. a node's
+ * level and its auto-leveled parents, or every tree of a loaded build) form one entry
+ */
+function commitPendingChange() {
+  isCommitQueued = false;
+  const label = pendingLabel ?? DEFAULT_LABEL;
+  pendingLabel = null;
+
+  const current = takeSnapshot();
+  const before = baseline;
+  baseline = current;
+
+  // Tree count changes are initialization (trees seeded), not user edits
+  if (before.trees.length !== current.trees.length) return;
+  if (isSameSnapshot(before, current)) return;
+
+  history.update(({ past }) => ({
+    past: [...past, { label, before, after: current }].slice(-HISTORY_LIMIT),
+    future: [],
+  }));
+}
+
+function handleStoreChange() {
+  if (isApplyingHistory || isCommitQueued) return;
+  isCommitQueued = true;
+  queueMicrotask(commitPendingChange);
+}
+
+treeLevels.subscribe(handleStoreChange);
+techCrystalsOwned.subscribe(handleStoreChange);
+
+/**
+ * Names the history entry for the next change (shown in undo/redo toasts and tooltips)
+ * Call right before changing the stores
+ */
+export function labelNextHistoryEntry(label: string): void {
+  pendingLabel = label;
+}
+
+/**
+ * Forgets all undo/redo steps and makes the current state the baseline
+ * Used when a different build is loaded in place of the current one (startup, mode or library switch)
+ */
+export function clearHistory(): void {
+  if (isCommitQueued) {
+    commitPendingChange();
+  }
+  pendingLabel = null;
+  baseline = takeSnapshot();
+  history.set({ past: [], future: [] });
+}
+
+function applySnapshot(snapshot: HistorySnapshot) {
+  isApplyingHistory = true;
+  try {
+    treeLevels.set(snapshot.trees);
+    setTechCrystalsOwned(snapshot.owned);
+    recalculateTechCrystalsSpent(snapshot.trees);
+    baseline = takeSnapshot();
+  } finally {
+    isApplyingHistory = false;
+  }
+}
+
+/**
+ * Reverts the last change
+ * @returns The label of the reverted change, or null if there was nothing to undo
+ */
+export function undo(): string | null {
+  if (isCommitQueued) {
+    commitPendingChange();
+  }
+  const { past, future } = get(history);
+  const entry = past[past.length - 1];
+  if (!entry) return null;
+
+  applySnapshot(entry.before);
+  history.set({ past: past.slice(0, -1), future: [...future, entry] });
+  return entry.label;
+}
+
+/**
+ * Re-applies the last undone change
+ * @returns The label of the re-applied change, or null if there was nothing to redo
+ */
+export function redo(): string | null {
+  if (isCommitQueued) {
+    commitPendingChange();
+  }
+  const { past, future } = get(history);
+  const entry = future[future.length - 1];
+  if (!entry) return null;
+
+  applySnapshot(entry.after);
+  history.set({ past: [...past, entry], future: future.slice(0, -1) });
+  return entry.label;
+}
+
+/**
+ * Undoes the last change and reports it in a toast (for buttons and shortcuts)
+ */
+export function undoWithToast(): void {
+  triggerHaptic();
+  const label = undo();
+  showToast(label ? `Undid: ${label}` : "Nothing to undo", {
+    tone: label ? "positive" : "negative",
+  });
+}
+
+/**
+ * Redoes the last undone change and reports it in a toast (for buttons and shortcuts)
+ */
+export function redoWithToast(): void {
+  triggerHaptic();
+  const label = redo();
+  showToast(label ? `Redid: ${label}` : "Nothing to redo", {
+    tone: label ? "positive" : "negative",
+  });
+}
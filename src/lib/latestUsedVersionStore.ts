@@ -1,7 +1,8 @@
 import { readable } from "svelte/store";
 import packageInfo from "../../package.json";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
-const STORAGE_KEY = "rg-backpack-planner-latest-used-version";
+const STORAGE_KEY = STORAGE_KEYS.latestUsedVersion;
 const currentVersion = packageInfo.version ?? "unknown";
 
 function getStoredVersion(): string | null {
@@ -0,0 +1,55 @@
+import { writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+
+const STORAGE_KEY = STORAGE_KEYS.levelDownPolicy;
+
+/**
+ * What happens when a node with leveled descendants would go to level 0
+ * - block: refuse the change
+ * - cascade: reset the descendants too (refunding their crystals)
+ * - warn: ask first, then keep the descendants' levels
+ */
+export type LevelDownPolicy = "block" | "cascade" | "warn";
+
+export const LEVEL_DOWN_POLICIES: LevelDownPolicy[] = ["block", "cascade", "warn"];
+
+export const LEVEL_DOWN_POLICY_LABELS: Record<LevelDownPolicy, string> = {
+  block: "Block",
+  cascade: "Reset children",
+  warn: "Warn",
+};
+
+export const DEFAULT_LEVEL_DOWN_POLICY: LevelDownPolicy = "cascade";
+
+export function isLevelDownPolicy(value: unknown): value is LevelDownPolicy {
+  return LEVEL_DOWN_POLICIES.includes(value as LevelDownPolicy);
+}
+
+function getLevelDownPolicy(): LevelDownPolicy {
+  if (typeof window === "undefined") return DEFAULT_LEVEL_DOWN_POLICY;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLevelDownPolicy(stored) ? stored : DEFAULT_LEVEL_DOWN_POLICY;
+}
+
+function setLevelDownPolicy(value: LevelDownPolicy) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, value);
+}
+
+function createLevelDownPolicyStore() {
+  const { subscribe, set } = writable(getLevelDownPolicy());
+
+  return {
+    subscribe,
+    set: (value: LevelDownPolicy) => {
+      setLevelDownPolicy(value);
+      set(value);
+    },
+    reset: () => {
+      setLevelDownPolicy(DEFAULT_LEVEL_DOWN_POLICY);
+      set(DEFAULT_LEVEL_DOWN_POLICY);
+    },
+  };
+}
+
+export const levelDownPolicy = createLevelDownPolicyStore();
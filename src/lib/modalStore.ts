@@ -2,13 +2,25 @@ import type { ComponentType } from "svelte";
 import type { IconWeight } from "phosphor-svelte";
 import { writable } from "svelte/store";
 
-export type ModalType = "confirm" | "input" | "loadBuild";
+export type ModalType = "confirm" | "input" | "loadBuild" | "buildDetails";
 
 export type ModalInputConfig = {
   label: string;
   value: number;
   min?: number;
+  max?: number;
   step?: number;
+  /** Text shown under the input for the value being entered (e.g. its cost) */
+  preview?: (value: number) => string;
+};
+
+/**
+ * A value the confirmed action changes, shown as a current -> incoming row
+ */
+export type ModalChangeRow = {
+  label: string;
+  current: string;
+  incoming: string;
 };
 
 export type ModalPayload = {
@@ -23,6 +35,9 @@ export type ModalPayload = {
   confirmPositive?: boolean;
   cancelLabel?: string;
   input?: ModalInputConfig;
+  changes?: ModalChangeRow[];
+  /** loadBuild only: receives the validated code instead of opening it */
+  onBuildCode?: (encoded: string) => void;
   onConfirm?: (value?: number) => void;
   onCancel?: () => void;
 };
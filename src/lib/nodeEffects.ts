@@ -0,0 +1,92 @@
+import type { StatType, TreeNode } from "./Tree.svelte";
+import type { LevelsById } from "./treeLevelsStore";
+
+/**
+ * Total boost percent per stat
+ */
+export type StatTotals = Record<StatType, number>;
+
+/**
+ * Display labels of each stat, in display order
+ */
+export const STAT_LABELS: Record<StatType, string> = {
+  attack: "Attack Boost",
+  defense: "Defense Boost",
+  hp: "HP Boost",
+  dodge: "Dodge",
+  ignore_dodge: "Ignore Dodge",
+  skill_crit_res: "Skill Crit Resistance",
+  damage_reflection: "Damage Reflection",
+  ignore_stun: "Ignore Stun",
+  global_attack: "Global ATK",
+  global_defense: "Global DEF",
+  global_hp: "Global HP",
+  final_damage: "Final Damage Boost",
+};
+
+export const STAT_TYPES = Object.keys(STAT_LABELS) as StatType[];
+
+/**
+ * Creates stat totals with every stat at 0
+ */
+export function createEmptyStatTotals(): StatTotals {
+  return Object.fromEntries(
+    STAT_TYPES.map((stat) => [stat, 0]),
+  ) as StatTotals;
+}
+
+/**
+ * Gets the boost percent a node grants at a level
+ * @param node The node definition
+ * @param level The node level (clamped to 0..maxLevel)
+ * @returns The boost percent, or 0 if the node has no effect
+ */
+export function getNodeEffectValue(node: TreeNode, level: number): number {
+  if (!node.effect) return 0;
+  const clampedLevel = Math.min(Math.max(0, Math.floor(level)), node.maxLevel);
+  return node.effect.perLevel * clampedLevel;
+}
+
+/**
+ * Gets the stat totals granted by a tree
+ * Nodes missing from `levels` are treated as level 0, unknown node IDs are ignored
+ * @param nodes The tree's node definitions
+ * @param levels The tree's levels by node ID
+ * @returns The boost percent per stat
+ */
+export function getTreeStatTotals(
+  nodes: TreeNode[],
+  levels: LevelsById | null | undefined,
+): StatTotals {
+  const totals = createEmptyStatTotals();
+  if (!levels) return totals;
+  for (const node of nodes) {
+    if (!node.effect) continue;
+    totals[node.effect.stat] += getNodeEffectValue(node, levels[node.id] ?? 0);
+  }
+  return totals;
+}
+
+/**
+ * Adds up stat totals (e.g. of every tree)
+ * @param totalsList The stat totals to add up
+ * @returns The combined boost percent per stat
+ */
+export function sumStatTotals(totalsList: StatTotals[]): StatTotals {
+  const combined = createEmptyStatTotals();
+  for (const totals of totalsList) {
+    for (const stat of STAT_TYPES) {
+      combined[stat] += totals[stat];
+    }
+  }
+  return combined;
+}
+
+/**
+ * Formats a boost percent for display (e.g. "10,000%", "2.5%")
+ * @param value The boost percent
+ */
+export function formatStatValue(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded.toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+}
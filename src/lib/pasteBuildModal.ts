@@ -0,0 +1,57 @@
+import { ArrowsLeftRightIcon } from "phosphor-svelte";
+import type { ComponentType } from "svelte";
+import { openModal } from "./modalStore";
+import { showToast } from "./toast";
+import { expandTreeProgress } from "./treeProgressStore";
+import { decodeBuildData, type BuildData } from "./buildData/encoder";
+import { repairBuildData } from "./buildData/repair";
+import { backpackTrees } from "../config/backpackTrees";
+
+export type PasteBuildModalOptions = {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  titleIcon?: ComponentType;
+  /** Receives the decoded build once the code is confirmed */
+  onBuild: (data: BuildData) => void;
+};
+
+/**
+ * Decodes a pasted share code
+ * Impossible states are repaired like shared links (see loadBuildFromUrl)
+ * @param encoded A validated share code (see parseEncodedFromUserInput)
+ * @returns The build with every node present, or null if the code cannot be decoded
+ */
+function decodePastedBuild(encoded: string): BuildData | null {
+  const decoded = decodeBuildData(encoded, backpackTrees, { allowOverMaxLevel: true });
+  if (!decoded) return null;
+  const { data } = repairBuildData(decoded, backpackTrees);
+  return { ...data, trees: expandTreeProgress(data.trees, backpackTrees) };
+}
+
+/**
+ * Asks for a share link or code and hands the build over instead of opening it
+ */
+export function openPasteBuildModal(options: PasteBuildModalOptions) {
+  let encoded: string | null = null;
+  openModal({
+    type: "loadBuild",
+    title: options.title,
+    titleIcon: options.titleIcon ?? (ArrowsLeftRightIcon as unknown as ComponentType),
+    message: options.message,
+    confirmLabel: options.confirmLabel,
+    cancelLabel: "Cancel",
+    onBuildCode: (code) => {
+      encoded = code;
+    },
+    // Runs after the modal closed, so it can open the next one
+    onConfirm: () => {
+      const data = encoded === null ? null : decodePastedBuild(encoded);
+      if (!data) {
+        showToast("Build could not be read", { tone: "negative" });
+        return;
+      }
+      options.onBuild(data);
+    },
+  });
+}
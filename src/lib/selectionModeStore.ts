@@ -0,0 +1,6 @@
+import { writable } from "svelte/store";
+
+/**
+ * Selection mode: taps select nodes and dragging draws a lasso, for bulk level changes
+ */
+export const isSelectionMode = writable(false);
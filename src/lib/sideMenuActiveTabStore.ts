@@ -1,12 +1,18 @@
 import { writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
-export type SideMenuTab = "statistics" | "settings" | "controls";
+export type SideMenuTab = "statistics" | "builds" | "settings" | "controls";
 
-const STORAGE_KEY = "rg-backpack-planner-side-menu-active-tab";
+const STORAGE_KEY = STORAGE_KEYS.sideMenuActiveTab;
 const DEFAULT_TAB: SideMenuTab = "statistics";
 
 function isValidTab(tab: string): tab is SideMenuTab {
-    return tab === "statistics" || tab === "settings" || tab === "controls";
+    return (
+        tab === "statistics" ||
+        tab === "builds" ||
+        tab === "settings" ||
+        tab === "controls"
+    );
 }
 
 function getStoredActiveTab(): SideMenuTab {
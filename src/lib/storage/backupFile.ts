@@ -0,0 +1,242 @@
+/**
+ * Backup files: everything the app persists, as a downloadable JSON file
+ * Used to move builds and settings between devices and browsers
+ */
+
+import packageInfo from "../../../package.json";
+import { backpackTrees } from "../../config/backpackTrees";
+import { formatNumber } from "../mathUtil";
+import { UNTITLED_BUILD_NAME } from "../buildLibraryStore";
+import { isCrystalIncome } from "../crystalIncomeStore";
+import {
+  DEFAULT_LEVEL_DOWN_POLICY,
+  LEVEL_DOWN_POLICY_LABELS,
+  isLevelDownPolicy,
+} from "../levelDownPolicyStore";
+import type { ModalChangeRow } from "../modalStore";
+import { STORAGE_KEYS, type StorageKey } from "./storageKeys";
+import {
+  STORAGE_SCHEMA_VERSION,
+  isRecord,
+  parseJson,
+  readStoredData,
+  replaceStoredData,
+  type StoredData,
+} from "./migrations";
+
+/**
+ * Marks a JSON file as a backup of this app
+ */
+const BACKUP_APP_ID = "rg-backpack-planner";
+
+/**
+ * Contents of a backup file
+ * `data` holds the raw stored values by key, in the schema of `schemaVersion`
+ */
+export type BackupFile = {
+  app: typeof BACKUP_APP_ID;
+  appVersion: string;
+  schemaVersion: number;
+  exportedAt: number;
+  data: StoredData;
+};
+
+/**
+ * Result of reading a backup file
+ */
+export type BackupFileResult =
+  | { ok: true; backup: BackupFile }
+  | { ok: false; error: string };
+
+const KNOWN_KEYS = new Set<string>(Object.values(STORAGE_KEYS));
+
+const isBooleanString = (value: string) => value === "true" || value === "false";
+
+/**
+ * Checks the stored value of each key (keys without a check accept any string)
+ */
+const VALUE_CHECKS: Partial<Record<StorageKey, (value: string) => boolean>> = {
+  [STORAGE_KEYS.treeProgress]: (value) => {
+    const parsed = parseJson(value);
+    return Array.isArray(parsed) && parsed.every(isRecord);
+  },
+  [STORAGE_KEYS.targetLevels]: (value) => {
+    const parsed = parseJson(value);
+    return Array.isArray(parsed) && parsed.every(isRecord);
+  },
+  [STORAGE_KEYS.techCrystalsOwned]: (value) => /^\d+$/.test(value),
+  [STORAGE_KEYS.buildMetadata]: (value) => isRecord(parseJson(value)),
+  [STORAGE_KEYS.buildLibrary]: (value) => {
+    const parsed = parseJson(value);
+    return isRecord(parsed) && Array.isArray(parsed.builds);
+  },
+  [STORAGE_KEYS.closeUpView]: isBooleanString,
+  [STORAGE_KEYS.singleLevelUp]: isBooleanString,
+  [STORAGE_KEYS.strictBudget]: isBooleanString,
+  [STORAGE_KEYS.levelDownPolicy]: isLevelDownPolicy,
+  [STORAGE_KEYS.crystalIncome]: (value) => isCrystalIncome(parseJson(value)),
+};
+
+/**
+ * Creates a backup of everything the app currently stores
+ */
+export function createBackupFile(): BackupFile {
+  return {
+    app: BACKUP_APP_ID,
+    appVersion: packageInfo.version ?? "unknown",
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    data: readStoredData(),
+  };
+}
+
+/**
+ * Downloads a backup of everything the app stores as a JSON file
+ */
+export function downloadBackupFile(): void {
+  const backup = createBackupFile();
+  const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `backpack-planner-backup-${date}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads and validates the text of a backup file
+ * Unknown keys are ignored, so backups stay loadable when keys are retired
+ * @param text The file contents
+ * @returns The backup, or why the file cannot be imported
+ */
+export function parseBackupFile(text: string): BackupFileResult {
+  const parsed = parseJson(text);
+  if (parsed === undefined) {
+    return { ok: false, error: "File is not valid JSON" };
+  }
+  if (!isRecord(parsed) || parsed.app !== BACKUP_APP_ID) {
+    return { ok: false, error: "File is not a Backpack Planner backup" };
+  }
+
+  const { schemaVersion, data } = parsed;
+  if (typeof schemaVersion !== "number" || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return { ok: false, error: "Backup has an invalid data version" };
+  }
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return { ok: false, error: "Backup was made with a newer version of the app" };
+  }
+  if (!isRecord(data)) {
+    return { ok: false, error: "Backup has no data" };
+  }
+
+  const knownData: StoredData = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!KNOWN_KEYS.has(key)) continue;
+    const check = VALUE_CHECKS[key as StorageKey];
+    if (typeof value !== "string" || (check && !check(value))) {
+      return { ok: false, error: `Backup has an unreadable value for ${key}` };
+    }
+    knownData[key] = value;
+  }
+  if (Object.keys(knownData).length === 0) {
+    return { ok: false, error: "Backup is empty" };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      app: BACKUP_APP_ID,
+      appVersion: typeof parsed.appVersion === "string" ? parsed.appVersion : "unknown",
+      schemaVersion,
+      exportedAt: typeof parsed.exportedAt === "number" ? parsed.exportedAt : 0,
+      data: knownData,
+    },
+  };
+}
+
+/**
+ * Summarizes stored data as display values by label
+ * Read leniently: older schema versions may still hold malformed values
+ */
+function summarizeStoredData(data: StoredData): Record<string, string> {
+  const onOff = (value: string | undefined) => (value === "true" ? "On" : "Off");
+  const formatIncome = (value: string | undefined) => {
+    const income = parseJson(value);
+    if (!isCrystalIncome(income) || income.amount === 0) return "Not set";
+    return `${formatNumber(income.amount)} per ${income.period}`;
+  };
+
+  const sumLevels = (key: StorageKey) => {
+    const progress = parseJson(data[key]);
+    if (!Array.isArray(progress)) return 0;
+    return progress.reduce<number>(
+      (total, tree) =>
+        total +
+        (isRecord(tree)
+          ? Object.values(tree).reduce<number>(
+              (sum, level) => sum + (typeof level === "number" ? level : 0),
+              0,
+            )
+          : 0),
+      0,
+    );
+  };
+
+  const library = parseJson(data[STORAGE_KEYS.buildLibrary]);
+  const buildCount = isRecord(library) && Array.isArray(library.builds) ? library.builds.length : 1;
+
+  const metadata = parseJson(data[STORAGE_KEYS.buildMetadata]);
+  const buildName =
+    isRecord(metadata) && typeof metadata.name === "string" && metadata.name !== ""
+      ? metadata.name
+      : UNTITLED_BUILD_NAME;
+
+  const levelDownPolicy = data[STORAGE_KEYS.levelDownPolicy];
+
+  const activeTabId = data[STORAGE_KEYS.activeTabId];
+  const activeTree =
+    backpackTrees.find((tree) => tree.id === activeTabId)?.label ?? backpackTrees[0]?.label ?? "";
+
+  return {
+    "Saved builds": formatNumber(buildCount),
+    "Active build": buildName,
+    "Node levels": formatNumber(sumLevels(STORAGE_KEYS.treeProgress)),
+    "Target levels": formatNumber(sumLevels(STORAGE_KEYS.targetLevels)),
+    "Tech Crystals owned": formatNumber(parseInt(data[STORAGE_KEYS.techCrystalsOwned] ?? "0", 10) || 0),
+    "Tech Crystal income": formatIncome(data[STORAGE_KEYS.crystalIncome]),
+    "Single Level Up": onOff(data[STORAGE_KEYS.singleLevelUp]),
+    "Strict Budget": onOff(data[STORAGE_KEYS.strictBudget]),
+    "Lowering a parent": LEVEL_DOWN_POLICY_LABELS[
+      isLevelDownPolicy(levelDownPolicy) ? levelDownPolicy : DEFAULT_LEVEL_DOWN_POLICY
+    ],
+    "Close-up View": onOff(data[STORAGE_KEYS.closeUpView]),
+    "Active tree": activeTree,
+  };
+}
+
+/**
+ * Lists the values an import would overwrite
+ * @param backup The backup to import
+ * @returns Changed values, current -> incoming (empty if the backup matches)
+ */
+export function getBackupChanges(backup: BackupFile): ModalChangeRow[] {
+  const current = summarizeStoredData(readStoredData());
+  const incoming = summarizeStoredData(backup.data);
+  return Object.keys(incoming)
+    .filter((label) => current[label] !== incoming[label])
+    .map((label) => ({ label, current: current[label] ?? "", incoming: incoming[label] }));
+}
+
+/**
+ * Replaces all stored data with a backup
+ * Older backups are migrated on the next startup (callers reload the page)
+ * @returns true if the backup was written
+ */
+export function importBackupFile(backup: BackupFile): boolean {
+  return replaceStoredData(backup.data, backup.schemaVersion);
+}
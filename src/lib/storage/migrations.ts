@@ -0,0 +1,324 @@
+/**
+ * Stored data schema versions and migrations
+ * Every value the app persists lives under a STORAGE_KEYS key. The schema version
+ * is stored next to them, and runStorageMigrations brings older data up to date
+ * on startup, after copying it to a backup key.
+ *
+ * When stored data needs to change (e.g. a game update renames node IDs):
+ * 1. Bump STORAGE_SCHEMA_VERSION
+ * 2. Register a migration from the previous version in STORAGE_MIGRATIONS
+ *    (renameStoredNodeIds covers node ID renames)
+ * Node IDs that no longer exist in the trees are dropped after every migration run.
+ */
+
+import type { TreeNode } from "../Tree.svelte";
+import type { LevelsById } from "../treeLevelsStore";
+import { backpackTrees } from "../../config/backpackTrees";
+import {
+  STORAGE_KEYS,
+  STORAGE_KEY_PREFIX,
+  STORAGE_VERSION_KEY,
+  STORAGE_BACKUP_KEY,
+} from "./storageKeys";
+
+/**
+ * Raw stored values by key
+ */
+export type StoredData = Record<string, string>;
+
+/**
+ * Migrates stored data from one schema version to the next
+ */
+export type StorageMigration = (data: StoredData) => StoredData;
+
+/**
+ * Stored data as it was before a migration run
+ */
+export type StorageBackup = {
+  version: number;
+  createdAt: number;
+  data: StoredData;
+};
+
+/**
+ * Current stored data schema version
+ * Data without a version marker is version 0 (the unversioned keys)
+ */
+export const STORAGE_SCHEMA_VERSION = 1;
+
+/**
+ * Parses a stored JSON value
+ * @returns The parsed value, or undefined if the value is missing or malformed
+ */
+export function parseJson(value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rewrites the levels of every stored tree: the personal tree progress and
+ * target levels, and the trees and targets of every build library entry
+ * Malformed tree progress or targets are removed; malformed library entries are left to the library loader
+ * @param mapTree Returns the new levels of a tree
+ */
+export function mapStoredTrees(
+  data: StoredData,
+  mapTree: (levels: LevelsById, treeIndex: number) => LevelsById,
+): StoredData {
+  const next = { ...data };
+  const mapTrees = (trees: unknown[]) =>
+    trees.map((tree, index) => (isRecord(tree) ? mapTree(tree as LevelsById, index) : tree));
+
+  for (const key of [STORAGE_KEYS.treeProgress, STORAGE_KEYS.targetLevels]) {
+    const progress = parseJson(data[key]);
+    if (Array.isArray(progress) && progress.every(isRecord)) {
+      next[key] = JSON.stringify(mapTrees(progress));
+    } else if (key in data) {
+      delete next[key];
+    }
+  }
+
+  const library = parseJson(data[STORAGE_KEYS.buildLibrary]);
+  if (isRecord(library) && Array.isArray(library.builds)) {
+    const builds = (library.builds as unknown[]).map((build) => {
+      if (!isRecord(build) || !Array.isArray(build.trees)) return build;
+      return {
+        ...build,
+        trees: mapTrees(build.trees as unknown[]),
+        ...(Array.isArray(build.targets) && { targets: mapTrees(build.targets as unknown[]) }),
+      };
+    });
+    next[STORAGE_KEYS.buildLibrary] = JSON.stringify({ ...library, builds });
+  }
+
+  return next;
+}
+
+/**
+ * Creates a migration that renames node IDs in every stored tree
+ * A level already stored under the new ID is kept if it is higher
+ * @param renames Old node ID -> new node ID
+ */
+export function renameStoredNodeIds(
+  renames: Readonly<Record<string, string>>,
+): StorageMigration {
+  return (data) =>
+    mapStoredTrees(data, (levels) => {
+      const renamed: LevelsById = {};
+      for (const [nodeId, level] of Object.entries(levels)) {
+        const targetId = renames[nodeId] ?? nodeId;
+        renamed[targetId] =
+          targetId in renamed ? Math.max(renamed[targetId], level) : level;
+      }
+      return renamed;
+    });
+}
+
+/**
+ * Removes node IDs that are not in the given trees from every stored tree
+ * @param trees Node definitions per tree, in tab order
+ */
+export function dropUnknownStoredNodeIds(
+  data: StoredData,
+  trees: { nodes: TreeNode[] }[],
+): StoredData {
+  const nodeIdsByTree = trees.map((tree) => new Set(tree.nodes.map((node) => node.id)));
+  return mapStoredTrees(data, (levels, treeIndex) => {
+    const nodeIds = nodeIdsByTree[treeIndex];
+    if (!nodeIds) return levels;
+    return Object.fromEntries(
+      Object.entries(levels).filter(([nodeId]) => nodeIds.has(nodeId)),
+    );
+  });
+}
+
+/**
+ * Migrations keyed by the version they migrate from
+ */
+export const STORAGE_MIGRATIONS: Readonly<Record<number, StorageMigration>> = {
+  // v0 -> v1: drop malformed values the unversioned loaders silently ignored
+  0: (data) => {
+    const next = mapStoredTrees(data, (levels) =>
+      Object.fromEntries(
+        Object.entries(levels)
+          .filter(([, level]) => typeof level === "number" && Number.isFinite(level) && level > 0)
+          .map(([nodeId, level]) => [nodeId, Math.floor(level)]),
+      ),
+    );
+
+    const owned = next[STORAGE_KEYS.techCrystalsOwned];
+    if (owned !== undefined) {
+      const parsed = parseInt(owned, 10);
+      if (isNaN(parsed) || parsed < 0) {
+        delete next[STORAGE_KEYS.techCrystalsOwned];
+      }
+    }
+
+    return next;
+  },
+};
+
+/**
+ * Migrates stored data to the current schema version
+ * @param data Stored data in the schema of `fromVersion`
+ * @param fromVersion The schema version the data was stored with
+ * @param trees Node definitions per tree, used to drop unknown node IDs
+ * @returns Stored data in the current schema
+ * @throws Error if a migration step is missing
+ */
+export function migrateStoredData(
+  data: StoredData,
+  fromVersion: number,
+  trees: { nodes: TreeNode[] }[] = backpackTrees,
+): StoredData {
+  let migrated = data;
+  for (let version = fromVersion; version < STORAGE_SCHEMA_VERSION; version++) {
+    const migration = STORAGE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`Missing storage migration from version ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return dropUnknownStoredNodeIds(migrated, trees);
+}
+
+/**
+ * Reads the stored schema version
+ * @returns The version, or 0 for unversioned data
+ */
+function getStoredSchemaVersion(): number {
+  const stored = localStorage.getItem(STORAGE_VERSION_KEY);
+  if (stored === null) return 0;
+  const parsed = parseInt(stored, 10);
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+}
+
+/**
+ * Reads every app value from localStorage (except the version and backup keys)
+ */
+export function readStoredData(): StoredData {
+  const data: StoredData = {};
+  for (let index = 0; index < localStorage.length; index++) {
+    const key = localStorage.key(index);
+    if (
+      key === null ||
+      !key.startsWith(STORAGE_KEY_PREFIX) ||
+      key === STORAGE_VERSION_KEY ||
+      key === STORAGE_BACKUP_KEY
+    ) {
+      continue;
+    }
+    const value = localStorage.getItem(key);
+    if (value !== null) data[key] = value;
+  }
+  return data;
+}
+
+/**
+ * Replaces the app values in localStorage with the given data
+ * Keys missing from `data` are removed
+ */
+function writeStoredData(data: StoredData): void {
+  for (const key of Object.keys(readStoredData())) {
+    if (!(key in data)) localStorage.removeItem(key);
+  }
+  for (const [key, value] of Object.entries(data)) {
+    localStorage.setItem(key, value);
+  }
+}
+
+/**
+ * Brings stored data up to the current schema version
+ * Must run before any store reads localStorage (see storage/runMigrations.ts)
+ * The data is copied to the backup key before it is changed. Data from a newer
+ * app version is left untouched.
+ * @returns The version the data was migrated from, or null if nothing was migrated
+ */
+export function runStorageMigrations(): number | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const fromVersion = getStoredSchemaVersion();
+    if (fromVersion === STORAGE_SCHEMA_VERSION) return null;
+    if (fromVersion > STORAGE_SCHEMA_VERSION) {
+      console.warn(
+        `Stored data is from a newer version (${fromVersion}), skipping storage migrations`,
+      );
+      return null;
+    }
+
+    const data = readStoredData();
+    // A first visit has nothing to migrate, it only gets the version stamped
+    const hasData = Object.keys(data).length > 0;
+    if (hasData) {
+      const backup: StorageBackup = { version: fromVersion, createdAt: Date.now(), data };
+      localStorage.setItem(STORAGE_BACKUP_KEY, JSON.stringify(backup));
+      writeStoredData(migrateStoredData(data, fromVersion));
+    }
+    localStorage.setItem(STORAGE_VERSION_KEY, STORAGE_SCHEMA_VERSION.toString());
+    return hasData ? fromVersion : null;
+  } catch (error) {
+    console.error("Failed to migrate stored data:", error);
+    return null;
+  }
+}
+
+/**
+ * Gets the copy of the stored data taken before the last migration
+ * @returns The backup, or null if there is none
+ */
+export function getStorageBackup(): StorageBackup | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const parsed = parseJson(localStorage.getItem(STORAGE_BACKUP_KEY) ?? undefined);
+    if (!isRecord(parsed)) return null;
+    const backup = parsed as Partial<StorageBackup>;
+    if (typeof backup.version !== "number" || !isRecord(backup.data)) return null;
+    return {
+      version: backup.version,
+      createdAt: typeof backup.createdAt === "number" ? backup.createdAt : 0,
+      data: backup.data as StoredData,
+    };
+  } catch (error) {
+    console.error("Failed to load storage backup from localStorage:", error);
+    return null;
+  }
+}
+
+/**
+ * Replaces all app values in localStorage, marked with the schema version they were made with
+ * Migrations run on the next startup if the version is older (callers reload the page)
+ * @returns true if the data was written
+ */
+export function replaceStoredData(data: StoredData, version: number): boolean {
+  if (typeof window === "undefined") return false;
+
+  try {
+    writeStoredData(data);
+    localStorage.setItem(STORAGE_VERSION_KEY, version.toString());
+    return true;
+  } catch (error) {
+    console.error("Failed to replace stored data:", error);
+    return false;
+  }
+}
+
+/**
+ * Puts the pre-migration data back, marked with its old schema version
+ * Migrations run again on the next startup (callers reload the page)
+ * @returns true if a backup was restored
+ */
+export function restoreStorageBackup(): boolean {
+  const backup = getStorageBackup();
+  if (!backup) return false;
+  return replaceStoredData(backup.data, backup.version);
+}
@@ -0,0 +1,14 @@
+/**
+ * Runs the storage migrations when imported
+ * Imported first in main.ts: stores read localStorage when their modules load,
+ * so the data has to be migrated before any of them is imported
+ */
+
+import { runStorageMigrations } from "./migrations";
+import { showToastDelayed } from "../toast";
+
+if (runStorageMigrations() !== null) {
+  showToastDelayed("Saved data updated. Settings › Restore Pre-update Data undoes it", {
+    durationMs: 5000,
+  });
+}
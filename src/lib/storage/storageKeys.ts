@@ -0,0 +1,36 @@
+/**
+ * localStorage keys of every persisted value
+ * Stores read and write through these names so storage migrations know the full schema
+ */
+export const STORAGE_KEYS = {
+  treeProgress: "rg-backpack-planner-tree-progress",
+  targetLevels: "rg-backpack-planner-target-levels",
+  techCrystalsOwned: "rg-backpack-planner-tech-crystals-owned",
+  buildMetadata: "rg-backpack-planner-build-metadata",
+  buildLibrary: "rg-backpack-planner-build-library",
+  closeUpView: "rg-backpack-planner-close-up-view",
+  singleLevelUp: "rg-backpack-planner-single-level-up",
+  strictBudget: "rg-backpack-planner-strict-budget",
+  levelDownPolicy: "rg-backpack-planner-level-down-policy",
+  crystalIncome: "rg-backpack-planner-crystal-income",
+  activeTabId: "rg-backpack-planner-active-tab-id",
+  sideMenuActiveTab: "rg-backpack-planner-side-menu-active-tab",
+  latestUsedVersion: "rg-backpack-planner-latest-used-version",
+} as const;
+
+export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+/**
+ * Prefix shared by all keys of the app
+ */
+export const STORAGE_KEY_PREFIX = "rg-backpack-planner-";
+
+/**
+ * Schema version of the stored data (written after migrations run)
+ */
+export const STORAGE_VERSION_KEY = "rg-backpack-planner-storage-version";
+
+/**
+ * Copy of the stored data taken before the last migration
+ */
+export const STORAGE_BACKUP_KEY = "rg-backpack-planner-storage-backup";
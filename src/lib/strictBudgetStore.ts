@@ -0,0 +1,55 @@
+import { writable } from "svelte/store";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+import { showToast } from "./toast";
+import { triggerHaptic } from "./haptics";
+import { formatNumber } from "./mathUtil";
+
+const STORAGE_KEY = STORAGE_KEYS.strictBudget;
+
+function getStrictBudget(): boolean {
+  if (typeof window === "undefined") return false;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored === "true";
+}
+
+function setStrictBudget(value: boolean) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, value.toString());
+}
+
+function createStrictBudgetStore() {
+  const { subscribe, set, update } = writable(getStrictBudget());
+
+  return {
+    subscribe,
+    set: (value: boolean) => {
+      setStrictBudget(value);
+      set(value);
+    },
+    toggle: () => {
+      update((value) => {
+        const next = !value;
+        setStrictBudget(next);
+        return next;
+      });
+    },
+  };
+}
+
+/**
+ * When on, level-ups that cost more than the available Tech Crystals are refused
+ */
+export const strictBudget = createStrictBudgetStore();
+
+/**
+ * Tells the user a change was refused by the strict budget
+ * @param cost Tech Crystals the change needs
+ * @param available Tech Crystals available
+ */
+export function refuseOverBudget(cost: number, available: number): void {
+  triggerHaptic(40);
+  showToast(
+    `Not enough Tech Crystals: needs ${formatNumber(cost)}, ${formatNumber(Math.max(0, available))} available`,
+    { tone: "negative" },
+  );
+}
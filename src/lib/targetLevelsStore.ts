@@ -0,0 +1,160 @@
+import { derived, get, writable, type Unsubscriber } from "svelte/store";
+import { treeLevels, type LevelsById } from "./treeLevelsStore";
+import { compressTreeProgress } from "./treeProgressStore";
+import { isPreviewMode } from "./previewModeStore";
+import { getTreeRemainingCost } from "./techCrystalCost";
+import { STORAGE_KEYS } from "./storage/storageKeys";
+import { backpackTrees } from "../config/backpackTrees";
+
+const STORAGE_KEY = STORAGE_KEYS.targetLevels;
+
+/**
+ * Target level of each node, one record per tree
+ * Only nodes with a target above their current level are kept; a node's
+ * target is never below its current level (see getEffectiveTargets)
+ */
+export const targetLevels = writable<LevelsById[]>([]);
+
+/**
+ * Whether tapping and the node menu edit target levels instead of current levels
+ */
+export const isTargetMode = writable(false);
+
+/**
+ * Tech Crystals still needed to reach the targets, one entry per tree
+ */
+export const techCrystalsRemainingByTree = derived(
+  [treeLevels, targetLevels],
+  ([$treeLevels, $targetLevels]) =>
+    backpackTrees.map((tree, index) =>
+      getTreeRemainingCost(tree.nodes, $treeLevels[index], $targetLevels[index]),
+    ),
+);
+
+export const techCrystalsRemaining = derived(techCrystalsRemainingByTree, ($trees) =>
+  $trees.reduce((sum, value) => sum + value, 0),
+);
+
+/**
+ * Whether any node has a target above its current level
+ */
+export const hasTargets = derived(techCrystalsRemaining, ($remaining) => $remaining > 0);
+
+/**
+ * Gets the target of every node of a tree: its target, or its current level if higher
+ * @param levels The tree's current levels
+ * @param targets The tree's stored targets
+ */
+export function getEffectiveTargets(
+  levels: LevelsById,
+  targets: LevelsById | null | undefined,
+): LevelsById {
+  const effective: LevelsById = { ...levels };
+  for (const [nodeId, target] of Object.entries(targets ?? {})) {
+    effective[nodeId] = Math.max(levels[nodeId] ?? 0, target);
+  }
+  return effective;
+}
+
+/**
+ * Keeps only the targets above the current levels
+ */
+function pruneTargets(levels: LevelsById, targets: LevelsById): LevelsById {
+  return Object.fromEntries(
+    Object.entries(targets).filter(([nodeId, target]) => target > (levels[nodeId] ?? 0)),
+  );
+}
+
+/**
+ * Sets the targets of a tree (targets at or below the current levels are dropped)
+ * @param index The tree index
+ * @param targets Target levels by node ID
+ */
+export function setTreeTargets(index: number, targets: LevelsById): void {
+  const levels = get(treeLevels)[index] ?? {};
+  targetLevels.update((current) => {
+    const next = current.slice();
+    while (next.length <= index) next.push({});
+    next[index] = pruneTargets(levels, targets);
+    return next;
+  });
+}
+
+/**
+ * Replaces the targets of every tree (e.g. from a share code or a saved build)
+ * @param targets Target levels per tree (empty records for trees without targets)
+ */
+export function setAllTargets(targets: LevelsById[] | null | undefined): void {
+  const levels = get(treeLevels);
+  targetLevels.set(
+    backpackTrees.map((_, index) => pruneTargets(levels[index] ?? {}, targets?.[index] ?? {})),
+  );
+}
+
+/**
+ * Removes every target
+ */
+export function clearTargets(): void {
+  targetLevels.set(backpackTrees.map(() => ({})));
+}
+
+/**
+ * Loads the personal build's targets from localStorage
+ * @returns The saved targets, or null if not found/invalid
+ */
+export function loadTargetLevels(): LevelsById[] | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored) as LevelsById[];
+    if (
+      Array.isArray(parsed) &&
+      parsed.every((tree) => typeof tree === "object" && tree !== null)
+    ) {
+      return parsed;
+    }
+    return null;
+  } catch (error) {
+    console.error("Failed to load target levels from localStorage:", error);
+    return null;
+  }
+}
+
+/**
+ * Saves the personal build's targets to localStorage (removes the key if there are none)
+ * @param targets Target levels per tree
+ */
+export function saveTargetLevels(targets: LevelsById[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const compressed = compressTreeProgress(targets);
+    if (compressed.every((tree) => Object.keys(tree).length === 0)) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(compressed));
+    }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      console.warn("localStorage quota exceeded, unable to save target levels");
+    } else {
+      console.error("Failed to save target levels to localStorage:", error);
+    }
+  }
+}
+
+/**
+ * Initializes automatic persistence of the targets
+ * Skips saving in preview mode (preview targets update the URL instead)
+ * @returns Unsubscriber function to stop auto-saving
+ */
+export function initTargetLevelsPersistence(): Unsubscriber {
+  return targetLevels.subscribe((targets) => {
+    if (targets.length === 0) return;
+    if (get(isPreviewMode)) return;
+    saveTargetLevels(targets);
+  });
+}
@@ -0,0 +1,138 @@
+import type { TreeNode } from "./Tree.svelte";
+import type { LevelsById } from "./treeLevelsStore";
+
+/**
+ * Gets the Tech Crystal cost of reaching a single level from the level below it
+ * @param node The node definition
+ * @param level The level being reached (1-based)
+ * @returns The cost of that level, or 0 if the level is out of range
+ */
+export function getLevelCost(node: TreeNode, level: number): number {
+  if (level < 1 || level > node.maxLevel) return 0;
+
+  const cost = node.cost;
+  if (!cost) return 1;
+
+  if (Array.isArray(cost)) {
+    if (cost.length === 0) return 1;
+    return cost[Math.min(level, cost.length) - 1];
+  }
+
+  return cost.base + cost.increment * (level - 1);
+}
+
+/**
+ * Gets the total Tech Crystal cost of taking a node from level 0 to a level
+ * @param node The node definition
+ * @param level The target level (clamped to 0..maxLevel)
+ * @returns The total cost of all levels up to and including `level`
+ */
+export function getCostToLevel(node: TreeNode, level: number): number {
+  const clampedLevel = Math.min(Math.max(0, Math.floor(level)), node.maxLevel);
+  let total = 0;
+  for (let current = 1; current <= clampedLevel; current += 1) {
+    total += getLevelCost(node, current);
+  }
+  return total;
+}
+
+/**
+ * Gets the Tech Crystal delta of moving a node between two levels
+ * @param node The node definition
+ * @param fromLevel The current level
+ * @param toLevel The next level
+ * @returns Positive when leveling up (crystals spent), negative when leveling down (refund)
+ */
+export function getCostBetweenLevels(
+  node: TreeNode,
+  fromLevel: number,
+  toLevel: number,
+): number {
+  return getCostToLevel(node, toLevel) - getCostToLevel(node, fromLevel);
+}
+
+/**
+ * Gets the level-0 ancestors that are leveled to 1 before a node can be leveled
+ * (see isAvailable in Tree.svelte), and the cost of those levels
+ * The root and nodes without levels are never leveled
+ * @param nodeId The node being leveled
+ * @param nodeById Lookup of the tree's nodes by ID
+ * @param levels The tree's levels by node ID
+ * @param skipIds Ancestors already counted by the caller (updated with the returned IDs)
+ * @returns The ancestor IDs, nearest first, and the cost of leveling them to 1
+ */
+export function getZeroAncestors(
+  nodeId: string,
+  nodeById: Map<string, TreeNode>,
+  levels: LevelsById,
+  skipIds: Set<string> = new Set(),
+): { nodeIds: string[]; cost: number } {
+  const nodeIds: string[] = [];
+  let cost = 0;
+  const addParents = (childId: string) => {
+    for (const parentId of nodeById.get(childId)?.parentIds ?? []) {
+      const parent = nodeById.get(parentId);
+      if (parentId === "root" || !parent || parent.maxLevel < 1) continue;
+      if (parentId === nodeId || skipIds.has(parentId) || (levels[parentId] ?? 0) > 0) continue;
+      skipIds.add(parentId);
+      nodeIds.push(parentId);
+      cost += getLevelCost(parent, 1);
+      addParents(parentId);
+    }
+  };
+  addParents(nodeId);
+  return { nodeIds, cost };
+}
+
+/**
+ * Gets the total Tech Crystals spent on a tree
+ * Nodes missing from `levels` are treated as level 0, unknown node IDs are ignored
+ * @param nodes The tree's node definitions
+ * @param levels The tree's levels by node ID
+ * @returns The total Tech Crystals spent
+ */
+export function getTreeCost(
+  nodes: TreeNode[],
+  levels: LevelsById | null | undefined,
+): number {
+  if (!levels) return 0;
+  return nodes.reduce(
+    (sum, node) => sum + getCostToLevel(node, levels[node.id] ?? 0),
+    0,
+  );
+}
+
+/**
+ * Gets the Tech Crystals still needed to take a node from its level to a target level
+ * @param node The node definition
+ * @param level The current level
+ * @param targetLevel The target level (targets at or below the current level need nothing)
+ * @returns The cost of the missing levels, or 0 if the target is reached
+ */
+export function getRemainingCost(
+  node: TreeNode,
+  level: number,
+  targetLevel: number,
+): number {
+  return Math.max(0, getCostBetweenLevels(node, level, targetLevel));
+}
+
+/**
+ * Gets the Tech Crystals still needed to reach the target levels of a tree
+ * @param nodes The tree's node definitions
+ * @param levels The tree's current levels by node ID
+ * @param targets The tree's target levels by node ID (missing nodes have no target)
+ * @returns The total remaining cost
+ */
+export function getTreeRemainingCost(
+  nodes: TreeNode[],
+  levels: LevelsById | null | undefined,
+  targets: LevelsById | null | undefined,
+): number {
+  if (!targets) return 0;
+  return nodes.reduce(
+    (sum, node) =>
+      sum + getRemainingCost(node, levels?.[node.id] ?? 0, targets[node.id] ?? 0),
+    0,
+  );
+}
@@ -1,6 +1,9 @@
 import { HexagonIcon } from "phosphor-svelte";
+import type { ComponentType } from "svelte";
 import { openModal } from "./modalStore";
 import { setTechCrystalsOwned } from "./techCrystalStore";
+import { labelNextHistoryEntry } from "./historyStore";
+import { crystalIncome, type CrystalIncome } from "./crystalIncomeStore";
 
 export function openTechCrystalsOwnedModal(currentOwned: number) {
   openModal({
@@ -18,8 +21,32 @@ export function openTechCrystalsOwnedModal(currentOwned: number) {
     cancelLabel: "Cancel",
     onConfirm: (value) => {
       if (typeof value === "number") {
+        labelNextHistoryEntry("Change Tech Crystals owned");
         setTechCrystalsOwned(value);
       }
     },
   });
 }
+
+export function openCrystalIncomeModal(income: CrystalIncome) {
+  openModal({
+    type: "input",
+    title: "TECH CRYSTAL INCOME",
+    titleIcon: HexagonIcon as unknown as ComponentType,
+    titleIconWeight: "fill",
+    message: "Used to project when your remaining upgrades become affordable.",
+    input: {
+      label: `Tech Crystals per ${income.period}`,
+      value: income.amount,
+      min: 0,
+      step: 1,
+    },
+    confirmLabel: "Save",
+    cancelLabel: "Cancel",
+    onConfirm: (value) => {
+      if (typeof value === "number") {
+        crystalIncome.setAmount(value);
+      }
+    },
+  });
+}
@@ -1,8 +1,11 @@
 import { derived, writable, get } from "svelte/store";
 import type { TabConfig } from "./Tabs.svelte";
+import type { TreeNode } from "./Tree.svelte";
 import type { LevelsById } from "./treeLevelsStore";
 import { isPreviewMode } from "./previewModeStore";
 import { loadTreeProgress } from "./treeProgressStore";
+import { getTreeCost } from "./techCrystalCost";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
 export const techCrystalsOwned = writable(0);
 /**
@@ -12,7 +15,7 @@ export const techCrystalsOwned = writable(0);
  */
 export const techCrystalsOwnedStorageUpdateFlag = writable(false);
 
-const TECH_CRYSTALS_STORAGE_KEY = "rg-backpack-planner-tech-crystals-owned";
+const TECH_CRYSTALS_STORAGE_KEY = STORAGE_KEYS.techCrystalsOwned;
 export const techCrystalsSpentByTree = writable<number[]>([0, 0, 0]);
 
 export const techCrystalsSpent = derived(
@@ -40,10 +43,28 @@ export const techCrystalsAvailable = derived(
   ([$owned, $spent]) => $owned - $spent,
 );
 
+/**
+ * Node definitions per tree, used to price levels when recalculating spent totals
+ */
+let costTrees: { nodes: TreeNode[] }[] = [];
+
 export function initTechCrystalTrees(tabs: TabConfig[]) {
+  costTrees = tabs.map((tab) => ({ nodes: tab.nodes }));
   techCrystalsSpentByTree.set(tabs.map(() => 0));
 }
 
+/**
+ * Calculates tech crystals spent for each tree using the node cost definitions
+ * @param levels Array of level records, one per tree
+ * @returns Tech crystals spent, one entry per tree
+ */
+function calculateTechCrystalsSpentByTree(levels: LevelsById[]): number[] {
+  // Missing keys are treated as 0 (compressed storage omits zeros)
+  return levels.map((treeLevels, index) =>
+    getTreeCost(costTrees[index]?.nodes ?? [], treeLevels),
+  );
+}
+
 /**
  * Gets tech crystals owned from localStorage
  * @returns The saved tech crystals owned value, or null if not found/invalid
@@ -135,13 +156,7 @@ export function applyTechCrystalDeltaForTree(
  * @param levels Array of level records, one per tree
  */
 export function recalculateTechCrystalsSpent(levels: LevelsById[]): void {
-  const spent = levels.map((treeLevels) => {
-    // Sum all node levels, excluding root node
-    return Object.entries(treeLevels)
-      .filter(([nodeId]) => nodeId !== "root")
-      .reduce((sum, [, level]) => sum + (level ?? 0), 0);
-  });
-  techCrystalsSpentByTree.set(spent);
+  techCrystalsSpentByTree.set(calculateTechCrystalsSpentByTree(levels));
 }
 
 /**
@@ -153,15 +168,10 @@ export function getTechCrystalsSpentFromStorage(): number {
   const levels = loadTreeProgress();
   if (!levels) return 0;
 
-  const spent = levels.map((treeLevels) => {
-    // Sum all node levels, excluding root node
-    // Missing keys are treated as 0 (compressed storage omits zeros)
-    return Object.entries(treeLevels)
-      .filter(([nodeId]) => nodeId !== "root")
-      .reduce((sum, [, level]) => sum + (level ?? 0), 0);
-  });
-
-  return spent.reduce((sum, value) => sum + value, 0);
+  return calculateTechCrystalsSpentByTree(levels).reduce(
+    (sum, value) => sum + value,
+    0,
+  );
 }
 
 /**
@@ -76,6 +76,7 @@ export function checkSessionStorageAndShowToast(
 
 const STOPPED_PREVIEW_KEY = "rg-backpack-planner-stopped-preview-toast";
 const CLONED_BUILD_KEY = "rg-backpack-planner-cloned-build-toast";
+const IMPORTED_BACKUP_KEY = "rg-backpack-planner-imported-backup-toast";
 
 /**
  * Checks sessionStorage for stopped preview flag and shows toast.
@@ -95,7 +96,18 @@ export function tryShowStoppedPreviewToast(): boolean {
 export function tryShowClonedBuildToast(): boolean {
   return checkSessionStorageAndShowToast(
     CLONED_BUILD_KEY,
-    "Cloned preview to personal build",
+    "Saved preview as a new build",
+  );
+}
+
+/**
+ * Checks sessionStorage for imported backup flag and shows toast.
+ * @returns true if the flag was found and processed, false otherwise
+ */
+export function tryShowImportedBackupToast(): boolean {
+  return checkSessionStorageAndShowToast(
+    IMPORTED_BACKUP_KEY,
+    "Backup imported",
   );
 }
 
@@ -116,3 +128,12 @@ export function queueClonedBuildToast(): void {
   if (typeof window === "undefined") return;
   sessionStorage.setItem(CLONED_BUILD_KEY, true.toString());
 }
+
+/**
+ * Queues an imported backup toast to be shown on next page load.
+ * Sets a flag in sessionStorage that will be checked after reload.
+ */
+export function queueImportedBackupToast(): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(IMPORTED_BACKUP_KEY, true.toString());
+}
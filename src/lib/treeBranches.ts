@@ -0,0 +1,117 @@
+import type { TreeNode } from "./Tree.svelte";
+import type { LevelsById } from "./treeLevelsStore";
+import { getCostToLevel } from "./techCrystalCost";
+
+/**
+ * The three branches of a tree, named by their link colour
+ * Same grouping as the encoder's branches: a node belongs to the branch of its first parent
+ */
+export type TreeBranch = "yellow" | "orange" | "blue";
+
+/**
+ * Branch context actions (see applyBranchAction in Tree.svelte)
+ */
+export type BranchAction = "max" | "reset" | "set" | "focus";
+
+export const TREE_BRANCHES: TreeBranch[] = ["yellow", "orange", "blue"];
+
+export const TREE_BRANCH_LABELS: Record<TreeBranch, string> = {
+  yellow: "Yellow",
+  orange: "Orange",
+  blue: "Blue",
+};
+
+/**
+ * Branch colours as "r, g, b" so callers pick the opacity
+ * Colorblind-friendly: Orange (more red-orange), Yellow (bright gold), Blue (saturated)
+ */
+export const TREE_BRANCH_RGB: Record<TreeBranch, string> = {
+  yellow: "255, 215, 0",
+  orange: "255, 107, 53",
+  blue: "74, 144, 226",
+};
+
+export type BranchTotals = {
+  levels: number;
+  maxLevels: number;
+  techCrystals: number;
+};
+
+/**
+ * Gets a branch from a node's position around the root at (0, 0)
+ * Right of the root is blue, top-left is orange and bottom-left is yellow
+ */
+function getBranchFromPosition(node: TreeNode): TreeBranch {
+  if (node.id === "root" || node.x > 0) return "blue";
+  return node.y < 0 ? "orange" : "yellow";
+}
+
+/**
+ * Gets the branch of every node in a tree
+ * Nodes connected to the root take the branch of their position, the others inherit
+ * the branch of their first known parent
+ * @param nodes The tree's node definitions
+ * @returns Branch by node ID
+ */
+export function getTreeBranches(nodes: TreeNode[]): Map<string, TreeBranch> {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const branches = new Map<string, TreeBranch>();
+
+  const getBranch = (node: TreeNode, visiting: Set<string>): TreeBranch => {
+    const cached = branches.get(node.id);
+    if (cached) return cached;
+
+    const parentIds = node.parentIds ?? [];
+    let branch: TreeBranch | null = null;
+    if (parentIds.length > 0 && !parentIds.includes("root") && !visiting.has(node.id)) {
+      const parent = parentIds.map((parentId) => nodeById.get(parentId)).find(Boolean);
+      if (parent) {
+        visiting.add(node.id);
+        branch = getBranch(parent, visiting);
+        visiting.delete(node.id);
+      }
+    }
+    branch ??= getBranchFromPosition(node);
+    branches.set(node.id, branch);
+    return branch;
+  };
+
+  for (const node of nodes) {
+    getBranch(node, new Set());
+  }
+  return branches;
+}
+
+/**
+ * Gets the IDs of the levelable nodes in a branch, in tree order
+ */
+export function getBranchNodeIds(nodes: TreeNode[], branch: TreeBranch): string[] {
+  const branches = getTreeBranches(nodes);
+  return nodes
+    .filter((node) => node.id !== "root" && node.maxLevel > 0 && branches.get(node.id) === branch)
+    .map((node) => node.id);
+}
+
+/**
+ * Gets the levels and Tech Crystals spent of each branch of a tree
+ * @param nodes The tree's node definitions
+ * @param levels The tree's levels by node ID
+ */
+export function getTreeBranchTotals(
+  nodes: TreeNode[],
+  levels: LevelsById | undefined,
+): Record<TreeBranch, BranchTotals> {
+  const totals = Object.fromEntries(
+    TREE_BRANCHES.map((branch) => [branch, { levels: 0, maxLevels: 0, techCrystals: 0 }]),
+  ) as Record<TreeBranch, BranchTotals>;
+  const branches = getTreeBranches(nodes);
+  for (const node of nodes) {
+    const branch = branches.get(node.id);
+    if (node.id === "root" || !branch) continue;
+    const level = levels?.[node.id] ?? 0;
+    totals[branch].levels += level;
+    totals[branch].maxLevels += node.maxLevel;
+    totals[branch].techCrystals += getCostToLevel(node, level);
+  }
+  return totals;
+}
@@ -2,8 +2,9 @@ import { get, type Unsubscriber } from "svelte/store";
 import { treeLevels, type LevelsById } from "./treeLevelsStore";
 import { isPreviewMode } from "./previewModeStore";
 import type { TreeNode } from "./Tree.svelte";
+import { STORAGE_KEYS } from "./storage/storageKeys";
 
-const STORAGE_KEY = "rg-backpack-planner-tree-progress";
+const STORAGE_KEY = STORAGE_KEYS.treeProgress;
 
 /**
  * Compresses tree progress data by removing zero values to reduce data size.
@@ -0,0 +1,197 @@
+import type { TreeNode } from "./Tree.svelte";
+import type { LevelsById } from "./treeLevelsStore";
+import { getCostBetweenLevels, getZeroAncestors } from "./techCrystalCost";
+
+/**
+ * Order the upgrades are planned in
+ * - cheapest: the cheapest available upgrade first
+ * - finals: unlock the path to every Final node first, then cheapest first
+ */
+export type UpgradePriority = "cheapest" | "finals";
+
+/**
+ * One upgrade of a plan: raise a node from one level to another
+ */
+export type UpgradeStep = {
+  treeIndex: number;
+  nodeId: string;
+  fromLevel: number;
+  toLevel: number;
+  cost: number;
+};
+
+type PlannedStep = UpgradeStep & {
+  parentIds: string[];
+  order: number;
+  leadsToFinal: boolean;
+};
+
+/**
+ * Final nodes are the leaves of a tree: they have parents but no children
+ */
+function getFinalNodeIds(nodes: TreeNode[]): Set<string> {
+  const parentIds = new Set(nodes.flatMap((node) => node.parentIds ?? []));
+  return new Set(
+    nodes
+      .filter((node) => (node.parentIds?.length ?? 0) > 0 && !parentIds.has(node.id))
+      .map((node) => node.id),
+  );
+}
+
+/**
+ * Gets the level each node has to reach: its target, and at least 1 for the
+ * parents of any node that has to be leveled (see isAvailable in Tree.svelte)
+ */
+function getRequiredLevels(
+  nodes: TreeNode[],
+  levels: LevelsById,
+  targets: LevelsById,
+): LevelsById {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const required: LevelsById = {};
+  for (const node of nodes) {
+    const level = levels[node.id] ?? 0;
+    required[node.id] = Math.min(Math.max(level, targets[node.id] ?? 0), node.maxLevel);
+  }
+
+  for (const node of nodes) {
+    if (required[node.id] === 0) continue;
+    for (const parentId of getZeroAncestors(node.id, nodeById, required).nodeIds) {
+      required[parentId] = 1;
+    }
+  }
+  return required;
+}
+
+/**
+ * Gets the IDs of a tree's nodes that are at level 0 on the way to a Final node with a target
+ */
+function getFinalPathNodeIds(
+  nodes: TreeNode[],
+  levels: LevelsById,
+  required: LevelsById,
+): Set<string> {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const path = new Set<string>();
+  const addAncestors = (node: TreeNode) => {
+    for (const parentId of node.parentIds ?? []) {
+      const parent = nodeById.get(parentId);
+      if (!parent || path.has(parentId) || (levels[parentId] ?? 0) > 0) continue;
+      path.add(parentId);
+      addAncestors(parent);
+    }
+  };
+  for (const finalId of getFinalNodeIds(nodes)) {
+    if (required[finalId] <= (levels[finalId] ?? 0)) continue;
+    path.add(finalId);
+    addAncestors(nodeById.get(finalId)!);
+  }
+  return path;
+}
+
+/**
+ * Splits the upgrades of a tree into steps
+ * A level-0 node that unlocks other upgrades gets its own 0 -> 1 step, so
+ * its children do not wait for all of its levels
+ */
+function getTreeSteps(
+  nodes: TreeNode[],
+  treeIndex: number,
+  levels: LevelsById,
+  targets: LevelsById,
+  firstOrder: number,
+): PlannedStep[] {
+  const required = getRequiredLevels(nodes, levels, targets);
+  const finalPath = getFinalPathNodeIds(nodes, levels, required);
+  const unlocksUpgrades = (nodeId: string) =>
+    nodes.some(
+      (node) =>
+        (node.parentIds ?? []).includes(nodeId) &&
+        required[node.id] > (levels[node.id] ?? 0),
+    );
+
+  const steps: PlannedStep[] = [];
+  const addStep = (node: TreeNode, fromLevel: number, toLevel: number, leadsToFinal: boolean) => {
+    steps.push({
+      treeIndex,
+      nodeId: node.id,
+      fromLevel,
+      toLevel,
+      cost: getCostBetweenLevels(node, fromLevel, toLevel),
+      parentIds: (node.parentIds ?? []).filter((parentId) => parentId !== "root"),
+      order: firstOrder + steps.length,
+      leadsToFinal,
+    });
+  };
+
+  for (const node of nodes) {
+    const level = levels[node.id] ?? 0;
+    const target = required[node.id];
+    if (target <= level) continue;
+
+    const isOnFinalPath = finalPath.has(node.id);
+    if (level === 0 && target > 1 && unlocksUpgrades(node.id)) {
+      addStep(node, 0, 1, isOnFinalPath);
+      // Only the unlock is needed on the way to a Final node
+      addStep(node, 1, target, false);
+    } else {
+      addStep(node, level, target, isOnFinalPath);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Creates an ordered upgrade plan from the current levels to the target levels
+ * Every step only needs parents that are already leveled or leveled by an
+ * earlier step, so the plan can be followed in game step by step.
+ * Parents of nodes with a target are planned to at least level 1.
+ * @param trees Node definitions of each tree, in tree order
+ * @param levels Current levels of each tree
+ * @param targets Target levels of each tree (missing nodes have no target)
+ * @param priority Which available step goes first (see UpgradePriority)
+ * @returns The steps in order
+ */
+export function createUpgradePlan(
+  trees: { nodes: TreeNode[] }[],
+  levels: LevelsById[],
+  targets: LevelsById[],
+  priority: UpgradePriority,
+): UpgradeStep[] {
+  const remaining: PlannedStep[] = [];
+  trees.forEach((tree, treeIndex) => {
+    remaining.push(
+      ...getTreeSteps(
+        tree.nodes,
+        treeIndex,
+        levels[treeIndex] ?? {},
+        targets[treeIndex] ?? {},
+        remaining.length,
+      ),
+    );
+  });
+
+  const simulated = trees.map((_, treeIndex) => ({ ...(levels[treeIndex] ?? {}) }));
+  const isAvailable = (step: PlannedStep) =>
+    (simulated[step.treeIndex][step.nodeId] ?? 0) === step.fromLevel &&
+    step.parentIds.every((parentId) => (simulated[step.treeIndex][parentId] ?? 0) > 0);
+  const rank = (step: PlannedStep) => (priority === "finals" && step.leadsToFinal ? 0 : 1);
+  const isBefore = (a: PlannedStep, b: PlannedStep) =>
+    rank(a) !== rank(b) ? rank(a) < rank(b) : a.cost !== b.cost ? a.cost < b.cost : a.order < b.order;
+
+  const plan: UpgradeStep[] = [];
+  while (remaining.length > 0) {
+    let next: PlannedStep | null = null;
+    for (const step of remaining) {
+      if (isAvailable(step) && (!next || isBefore(step, next))) next = step;
+    }
+    // Steps whose parents cannot be leveled stay out of the plan
+    if (!next) break;
+
+    remaining.splice(remaining.indexOf(next), 1);
+    simulated[next.treeIndex][next.nodeId] = next.toLevel;
+    const { treeIndex, nodeId, fromLevel, toLevel, cost } = next;
+    plan.push({ treeIndex, nodeId, fromLevel, toLevel, cost });
+  }
+  return plan;
+}
@@ -0,0 +1,106 @@
+import { get, writable } from "svelte/store";
+import { treeLevels, setTreeLevels, type LevelsById } from "./treeLevelsStore";
+import { recalculateTechCrystalsSpent, techCrystalsAvailable } from "./techCrystalStore";
+import { targetLevels } from "./targetLevelsStore";
+import { labelNextHistoryEntry } from "./historyStore";
+import { resolvedComparison } from "./comparisonStore";
+import { showToast } from "./toast";
+import { createUpgradePlan, type UpgradePriority, type UpgradeStep } from "./upgradePlan";
+import { getCostBetweenLevels, getZeroAncestors } from "./techCrystalCost";
+import { strictBudget, refuseOverBudget } from "./strictBudgetStore";
+import { backpackTrees } from "../config/backpackTrees";
+
+/**
+ * A generated plan
+ * Steps are kept when they are done, so the checklist keeps its order and cumulative costs
+ */
+export type UpgradePlan = {
+  priority: UpgradePriority;
+  steps: UpgradeStep[];
+};
+
+export const upgradePlan = writable<UpgradePlan | null>(null);
+
+export const upgradePriority = writable<UpgradePriority>("cheapest");
+
+/**
+ * Plans the upgrades from the current levels to the target levels
+ * @returns The plan (without steps if every target is reached)
+ */
+export function generateUpgradePlan(priority: UpgradePriority): UpgradePlan {
+  const plan: UpgradePlan = {
+    priority,
+    steps: createUpgradePlan(backpackTrees, get(treeLevels), get(targetLevels), priority),
+  };
+  upgradePlan.set(plan);
+  return plan;
+}
+
+export function clearUpgradePlan(): void {
+  upgradePlan.set(null);
+}
+
+/**
+ * Whether the current levels already reach a step
+ */
+export function isUpgradeStepDone(step: UpgradeStep, levels: LevelsById[]): boolean {
+  return (levels[step.treeIndex]?.[step.nodeId] ?? 0) >= step.toLevel;
+}
+
+/**
+ * Gets the display name of a step's node, e.g. "Guardian Attack"
+ */
+export function getUpgradeStepName(step: UpgradeStep): string {
+  const tree = backpackTrees[step.treeIndex];
+  const node = tree?.nodes.find((candidate) => candidate.id === step.nodeId);
+  return [tree?.label, node?.label ?? step.nodeId].filter(Boolean).join(" ");
+}
+
+/**
+ * Gets the Tech Crystals ticking a step costs from the current levels,
+ * including the level-0 parents it levels to 1
+ */
+export function getUpgradeStepCost(step: UpgradeStep, levels: LevelsById[]): number {
+  const tree = backpackTrees[step.treeIndex];
+  const stepLevels = levels[step.treeIndex] ?? {};
+  const nodeById = new Map(tree?.nodes.map((node) => [node.id, node]) ?? []);
+  const node = nodeById.get(step.nodeId);
+  if (!node) return 0;
+  return (
+    Math.max(0, getCostBetweenLevels(node, stepLevels[step.nodeId] ?? 0, step.toLevel)) +
+    getZeroAncestors(step.nodeId, nodeById, stepLevels).cost
+  );
+}
+
+/**
+ * Applies a step to the current levels (ticking it in the checklist)
+ * Level-0 parents are leveled to 1 like a level up in Tree.svelte, so steps
+ * ticked out of order still give a valid build
+ */
+export function applyUpgradeStep(step: UpgradeStep): void {
+  if (get(resolvedComparison)?.base.isLive === false) {
+    showToast("Stop comparing to edit your build", { tone: "negative" });
+    return;
+  }
+
+  const tree = backpackTrees[step.treeIndex];
+  const levels = get(treeLevels)[step.treeIndex];
+  if (!tree || !levels || isUpgradeStepDone(step, get(treeLevels))) return;
+
+  const cost = getUpgradeStepCost(step, get(treeLevels));
+  const available = get(techCrystalsAvailable);
+  if (get(strictBudget) && cost > available) {
+    refuseOverBudget(cost, available);
+    return;
+  }
+
+  const nodeById = new Map(tree.nodes.map((node) => [node.id, node]));
+  const next: LevelsById = { ...levels, [step.nodeId]: step.toLevel };
+  for (const parentId of getZeroAncestors(step.nodeId, nodeById, levels).nodeIds) {
+    next[parentId] = 1;
+  }
+
+  labelNextHistoryEntry(`Plan: ${getUpgradeStepName(step)} to ${step.toLevel}`);
+  setTreeLevels(step.treeIndex, next);
+  recalculateTechCrystalsSpent(get(treeLevels));
+}
@@ -5,7 +5,22 @@
  */
 
 import type { BuildData } from "../src/lib/buildData/encoder";
-import { encodeBuildData, decodeBuildData } from "../src/lib/buildData/encoder";
+import { encodeBuildData, decodeBuildData, decodeBuildDataResult } from "../src/lib/buildData/encoder";
+import type { BuildDecodeErrorKind } from "../src/lib/buildData/decodeError";
+import { repairBuildData, type BuildRepairChange } from "../src/lib/buildData/repair";
+import { backpackTrees } from "../src/config/backpackTrees";
+import type { TreeNode } from "../src/lib/Tree.svelte";
+import { createUpgradePlan, type UpgradePriority } from "../src/lib/upgradePlan";
+import { autoSpend, type AutoSpendStrategy } from "../src/lib/autoSpend";
+import { getTreeCost } from "../src/lib/techCrystalCost";
+
+/**
+ * Backpack trees with maxLevel lifted, so the round-trip tests can cover
+ * large base62 values (decoding rejects levels above a node's maxLevel)
+ */
+const formatTestTrees = backpackTrees.map((tree) => ({
+  nodes: tree.nodes.map((node) => ({ ...node, maxLevel: Number.MAX_SAFE_INTEGER })),
+}));
 
 /**
  * Test cases with various build configurations
@@ -718,6 +733,43 @@ const testCases: Array<{ name: string; buildData: BuildData }> = [
       owned: 0,
     },
   },
+  {
+    name: "Maxed build (every node at maxLevel)",
+    buildData: {
+      trees: backpackTrees.map((tree) =>
+        Object.fromEntries(tree.nodes.map((node) => [node.id, node.maxLevel])),
+      ),
+      owned: 250000,
+    },
+  },
+  {
+    name: "Near-max build (levels just below maxLevel)",
+    buildData: {
+      trees: backpackTrees.map((tree, treeIndex) =>
+        Object.fromEntries(
+          tree.nodes.map((node, nodeIndex) => [
+            node.id,
+            Math.max(0, node.maxLevel - ((nodeIndex + treeIndex) % 4)),
+          ]),
+        ),
+      ),
+      owned: 12345,
+    },
+  },
+  {
+    name: "Last tree with a single bare value (not owned)",
+    buildData: {
+      trees: [{ attack: 5 }, { attack: 3 }, {}],
+      owned: 0,
+    },
+  },
+  {
+    name: "Last tree with a repeated value run",
+    buildData: {
+      trees: [{}, { attack: 5, hp_1_1: 5, ignore_dodge_1_1: 5 }, {}],
+      owned: 0,
+    },
+  },
 ];
 
 /**
@@ -739,6 +791,12 @@ export function runTests() {
   let longestSerializedTestName = "";
   let longestSerializedValue = "";
 
+  // Track text vs binary format sizes (builds within the backpack trees' maxLevels)
+  let formatComparedTests = 0;
+  let totalTextLength = 0;
+  let totalBinaryLength = 0;
+  let totalAutoLength = 0;
+
   testCases.forEach((testCase, index) => {
     console.log(`Test ${index + 1}: ${testCase.name}`);
     console.log("---");
@@ -752,7 +810,7 @@ export function runTests() {
       // Wrap in try-catch with timeout protection to prevent infinite loops
       let serialized: string;
       try {
-        serialized = encodeBuildData(testCase.buildData);
+        serialized = encodeBuildData(testCase.buildData, formatTestTrees);
       } catch (error) {
         console.log(`❌ FAILED: Encoding threw error: ${error instanceof Error ? error.message : String(error)}`);
         failedTests++;
@@ -773,7 +831,7 @@ export function runTests() {
       // Decode build data with timeout protection
       let decoded: BuildData | null = null;
       try {
-        decoded = decodeBuildData(serialized);
+        decoded = decodeBuildData(serialized, formatTestTrees);
       } catch (error) {
         console.log(`❌ FAILED: Decoding threw error: ${error instanceof Error ? error.message : String(error)}`);
         failedTests++;
@@ -832,6 +890,39 @@ export function runTests() {
         : "0%";
       console.log(`Compression ratio vs JSON: ${compressionRatio}`);
 
+      // Compare text and binary formats against the real backpack trees
+      let binary: string | null = null;
+      try {
+        binary = encodeBuildData(testCase.buildData, backpackTrees, "binary");
+      } catch {
+        console.log("Binary format: skipped (levels above maxLevel)");
+      }
+      if (binary !== null) {
+        const text = encodeBuildData(testCase.buildData, backpackTrees, "text");
+        const auto = encodeBuildData(testCase.buildData);
+        const binaryDecoded = decodeBuildData(binary);
+        if (!binaryDecoded || !isSameBuild(binaryDecoded, testCase.buildData)) {
+          console.log("❌ Binary format round-trip mismatch");
+          if (treesMatch) {
+            passedTests--;
+            failedTests++;
+          }
+        }
+        if (auto.length !== Math.min(text.length, binary.length)) {
+          console.log("❌ Auto format did not pick the shorter representation");
+          if (treesMatch) {
+            passedTests--;
+            failedTests++;
+          }
+        }
+        console.log(`Text format length: ${text.length} characters`);
+        console.log(`Binary format length: ${binary.length} characters`);
+        formatComparedTests++;
+        totalTextLength += text.length;
+        totalBinaryLength += binary.length;
+        totalAutoLength += auto.length;
+      }
+
       totalSerializedLength += serializedLength;
       totalJsonLength += jsonLength;
 
@@ -870,6 +961,13 @@ export function runTests() {
     ? `${((1 - totalSerializedLength / totalJsonLength) * 100).toFixed(1)}%`
     : "0%";
   console.log(`🗜️ Overall compression ratio vs JSON: ${overallCompressionRatio}`);
+  if (formatComparedTests > 0) {
+    console.log(`📏 Text vs binary format (${formatComparedTests} builds within maxLevel):`);
+    console.log(`   Average text length: ${(totalTextLength / formatComparedTests).toFixed(1)} characters`);
+    console.log(`   Average binary length: ${(totalBinaryLength / formatComparedTests).toFixed(1)} characters`);
+    console.log(`   Average auto (shorter) length: ${(totalAutoLength / formatComparedTests).toFixed(1)} characters`);
+    console.log(`   Saved by auto vs text only: ${((1 - totalAutoLength / totalTextLength) * 100).toFixed(1)}%`);
+  }
   console.log();
   console.log("📈 Longest Encoded Length:");
   console.log(`   Serialized: ${longestSerializedLength} characters - "${longestSerializedTestName}"`);
@@ -897,8 +995,14 @@ export function runTests() {
 
 /**
  * Error handling tests - these should fail gracefully
+ * Cases with an expected kind also check the reported error kind and position
  */
-const errorTestCases: Array<{ name: string; invalidString: string; expectedError?: string }> = [
+const errorTestCases: Array<{
+  name: string;
+  invalidString: string;
+  expectedKind?: BuildDecodeErrorKind;
+  expectedPosition?: number;
+}> = [
   {
     name: "Invalid format: empty string",
     invalidString: "",
@@ -967,8 +1071,745 @@ const errorTestCases: Array<{ name: string; invalidString: string; expectedError
     name: "Invalid format: incomplete branch",
     invalidString: "1-1-",
   },
+  {
+    name: "Invalid level: above the node's maxLevel",
+    invalidString: "1~2s",
+    expectedKind: "level_over_max",
+    expectedPosition: 2,
+  },
+  {
+    name: "Invalid format: more node levels than the branch has",
+    invalidString: "1~1'b",
+    expectedKind: "node_count",
+    expectedPosition: 2,
+  },
+  {
+    name: "Invalid format: cut off after a separator",
+    invalidString: "1~5.3,",
+    expectedKind: "truncated",
+    expectedPosition: 5,
+  },
+  {
+    name: "Corrupted: edited node level (checksum mismatch)",
+    invalidString: "1~cesQ~6.3;,,c;E",
+    expectedKind: "corrupted",
+    expectedPosition: 3,
+  },
+  {
+    name: "Corrupted: cut off code (checksum mismatch)",
+    invalidString: "1~cesQ~5.3;,,c",
+    expectedKind: "corrupted",
+    expectedPosition: 3,
+  },
+  {
+    name: "Invalid binary: longer than the trees need",
+    invalidString: "1~b~" + "B".repeat(200),
+    expectedKind: "malformed",
+    expectedPosition: 102,
+  },
+  {
+    name: "Invalid binary: unexpected binary segment value",
+    invalidString: "1~bx~AB",
+    expectedKind: "malformed",
+    expectedPosition: 2,
+  },
+  {
+    name: "Invalid metadata: not base64url",
+    invalidString: "1~m'~5",
+    expectedKind: "invalid_metadata",
+    expectedPosition: 3,
+  },
+  {
+    name: "Invalid metadata: too many fields",
+    invalidString: "1~ma.b.c.d~5",
+    expectedKind: "invalid_metadata",
+    expectedPosition: 3,
+  },
+  {
+    name: "Invalid version: missing version",
+    invalidString: "~1",
+    expectedKind: "invalid_version",
+    expectedPosition: 0,
+  },
+  {
+    name: "Invalid version: unsupported future version",
+    invalidString: "z~1",
+    expectedKind: "unsupported_version",
+    expectedPosition: 0,
+  },
+  {
+    name: "Invalid character: outside the share code alphabet",
+    invalidString: "1~b!!",
+    expectedKind: "invalid_character",
+    expectedPosition: 3,
+  },
+  {
+    name: "Invalid repeat count: zero node levels",
+    invalidString: "1~5'0",
+    expectedKind: "invalid_rle_count",
+    expectedPosition: 4,
+  },
+  {
+    name: "Invalid format: more trees than the planner has",
+    invalidString: "1~5;5:3",
+    expectedKind: "tree_count",
+    expectedPosition: 4,
+  },
+  {
+    name: "Invalid format: more branches than the tree has",
+    invalidString: "1~1,1,1,1",
+    expectedKind: "branch_count",
+    expectedPosition: 8,
+  },
+  {
+    name: "Invalid level: unversioned code above the node's maxLevel",
+    invalidString: "zzzz",
+    expectedKind: "level_over_max",
+    expectedPosition: 0,
+  },
+  {
+    name: "Truncated: version marker without a build",
+    invalidString: "1~",
+    expectedKind: "truncated",
+    expectedPosition: 1,
+  },
+];
+
+/**
+ * Share codes posted by earlier releases: unversioned (format version 0) codes
+ * from before the version marker, and versioned codes with or without checksum.
+ * They must keep decoding to the same nodes.
+ */
+const legacyTestCases: Array<{ name: string; encoded: string; expected: BuildData }> = [
+  {
+    name: "v0: empty build marker",
+    encoded: "_",
+    expected: { trees: [{}, {}, {}], owned: 0 },
+  },
+  {
+    name: "v0: single attack level",
+    encoded: "1",
+    expected: { trees: [{ attack: 1 }, {}, {}], owned: 0 },
+  },
+  {
+    name: "v0: owned only",
+    encoded: ";a",
+    expected: { trees: [{}, {}, {}], owned: 10 },
+  },
+  {
+    name: "v0: one node per branch in the second tree",
+    encoded: ";2,1,.4",
+    expected: { trees: [{}, { attack: 2, defense: 1, attack_3_1: 4 }, {}], owned: 0 },
+  },
+  {
+    name: "v0: identical trees with owned",
+    encoded: "5.3,,2'2.1:3;1a",
+    expected: {
+      trees: [
+        { attack: 5, hp_1_1: 3, hp: 2, attack_3_1: 2, dodge_3_1: 1 },
+        { attack: 5, hp_1_1: 3, hp: 2, attack_3_1: 2, dodge_3_1: 1 },
+        { attack: 5, hp_1_1: 3, hp: 2, attack_3_1: 2, dodge_3_1: 1 },
+      ],
+      owned: 72,
+    },
+  },
+  {
+    name: "v1: with checksum",
+    encoded: "1~cesQ~5.3;,,c;E",
+    expected: { trees: [{ attack: 5, hp_1_1: 3 }, { hp: 12 }, {}], owned: 40 },
+  },
+  {
+    name: "v1: without checksum",
+    encoded: "1~5.3;,,c;E",
+    expected: { trees: [{ attack: 5, hp_1_1: 3 }, { hp: 12 }, {}], owned: 40 },
+  },
+  {
+    name: "v0: final nodes",
+    encoded: "'9.5,'9.4,'9.3",
+    expected: { trees: [{ final_1: 5, final_2: 4, final_3: 3 }, {}, {}], owned: 0 },
+  },
+];
+
+/**
+ * Compares decoded build data with the expected build (missing nodes count as 0)
+ */
+function isSameBuild(decoded: BuildData, expected: BuildData): boolean {
+  if (decoded.owned !== expected.owned) return false;
+  if (decoded.trees.length !== expected.trees.length) return false;
+  return expected.trees.every((expectedTree, index) => {
+    const decodedTree = decoded.trees[index] ?? {};
+    const nodeIds = new Set([...Object.keys(expectedTree), ...Object.keys(decodedTree)]);
+    return [...nodeIds].every(
+      (nodeId) => (decodedTree[nodeId] ?? 0) === (expectedTree[nodeId] ?? 0),
+    );
+  });
+}
+
+/**
+ * Run legacy share code tests
+ */
+export function runLegacyTests() {
+  console.log("===");
+  console.log("Legacy Share Code Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  legacyTestCases.forEach((testCase, index) => {
+    console.log(`Legacy Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const decoded = decodeBuildData(testCase.encoded);
+    if (!decoded) {
+      console.log("❌ FAILED: Decode returned null");
+      failedTests++;
+    } else if (!isSameBuild(decoded, testCase.expected)) {
+      console.log("❌ FAILED: Decoded build does not match");
+      console.log(`   Decoded result: ${JSON.stringify(decoded)}`);
+      failedTests++;
+    } else {
+      const reencoded = decodeBuildData(encodeBuildData(decoded));
+      if (reencoded && isSameBuild(reencoded, testCase.expected)) {
+        console.log("✅ PASSED");
+        passedTests++;
+      } else {
+        console.log("❌ FAILED: Re-encoded build does not round-trip");
+        failedTests++;
+      }
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Legacy Tests Summary");
+  console.log("===");
+  console.log(`📊 Total legacy tests: ${legacyTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: legacyTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
+/**
+ * Repair test cases: share codes decoded without the maxLevel check, then repaired
+ */
+const repairTestCases: Array<{
+  name: string;
+  encoded: string;
+  expected: BuildData;
+  expectedChanges: Array<Pick<BuildRepairChange, "kind" | "nodeId">>;
+}> = [
+  {
+    name: "Valid build is unchanged",
+    encoded: "1~5.3;,,c;E",
+    expected: { trees: [{ attack: 5, hp_1_1: 3 }, { hp: 12 }, {}], owned: 40 },
+    expectedChanges: [],
+  },
+  {
+    name: "Level above max is clamped",
+    encoded: "1~2s",
+    expected: { trees: [{ attack: 100 }, {}, {}], owned: 0 },
+    expectedChanges: [{ kind: "clamped", nodeId: "attack" }],
+  },
+  {
+    name: "Unleveled parents of a final node are leveled",
+    encoded: "'9.5",
+    expected: {
+      trees: [
+        {
+          final_1: 5,
+          global_hp_1_2: 1,
+          dodge_1_2: 1,
+          def_1_2: 1,
+          attack: 1,
+          ignore_stun_1_2: 1,
+          global_def_1_1: 1,
+          skill_critical_res_1_1: 1,
+          hp_1_1: 1,
+          ignore_dodge_1_1: 1,
+        },
+        {},
+        {},
+      ],
+      owned: 0,
+    },
+    expectedChanges: [
+      { kind: "parent_leveled", nodeId: "global_hp_1_2" },
+      { kind: "parent_leveled", nodeId: "dodge_1_2" },
+      { kind: "parent_leveled", nodeId: "def_1_2" },
+      { kind: "parent_leveled", nodeId: "attack" },
+      { kind: "parent_leveled", nodeId: "ignore_stun_1_2" },
+      { kind: "parent_leveled", nodeId: "global_def_1_1" },
+      { kind: "parent_leveled", nodeId: "skill_critical_res_1_1" },
+      { kind: "parent_leveled", nodeId: "hp_1_1" },
+      { kind: "parent_leveled", nodeId: "ignore_dodge_1_1" },
+    ],
+  },
 ];
 
+/**
+ * Run build repair tests
+ */
+export function runRepairTests() {
+  console.log("===");
+  console.log("Build Repair Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  repairTestCases.forEach((testCase, index) => {
+    console.log(`Repair Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const decoded = decodeBuildData(testCase.encoded, backpackTrees, { allowOverMaxLevel: true });
+    if (!decoded) {
+      console.log("❌ FAILED: Decode returned null");
+      failedTests++;
+      console.log();
+      return;
+    }
+
+    const { data, changes } = repairBuildData(decoded, backpackTrees);
+    const changeKeys = changes.map((change) => `${change.kind}:${change.nodeId}`);
+    const expectedKeys = testCase.expectedChanges.map((change) => `${change.kind}:${change.nodeId}`);
+    if (!isSameBuild(data, testCase.expected)) {
+      console.log("❌ FAILED: Repaired build does not match");
+      console.log(`   Repaired result: ${JSON.stringify(data)}`);
+      failedTests++;
+    } else if (changeKeys.join() !== expectedKeys.join()) {
+      console.log("❌ FAILED: Repair report does not match");
+      console.log(`   Reported changes: ${changeKeys.join(", ")}`);
+      failedTests++;
+    } else {
+      console.log("✅ PASSED");
+      passedTests++;
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Repair Tests Summary");
+  console.log("===");
+  console.log(`📊 Total repair tests: ${repairTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: repairTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
+/**
+ * Metadata test cases: build name, notes and author round-trip through share codes
+ */
+const metadataTestCases: Array<{ name: string; buildData: BuildData }> = [
+  {
+    name: "Name only",
+    buildData: { trees: [{ attack: 5 }, {}, {}], owned: 10, meta: { name: "Crit cannon" } },
+  },
+  {
+    name: "All fields with non-ASCII text",
+    buildData: {
+      trees: [{ attack: 100 }, { hp: 3 }, {}],
+      owned: 0,
+      meta: { name: "Tank ✨ build", notes: "Max HP first.\nThen dodge!", author: "Zoë" },
+    },
+  },
+  {
+    name: "Author only (empty leading fields)",
+    buildData: { trees: [{}, {}, {}], owned: 0, meta: { author: "guild-lead" } },
+  },
+];
+
+/**
+ * Run build metadata tests
+ */
+export function runMetadataTests() {
+  console.log("===");
+  console.log("Build Metadata Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  metadataTestCases.forEach((testCase, index) => {
+    console.log(`Metadata Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const results = (["text", "binary"] as const).map((format) => {
+      const encoded = encodeBuildData(testCase.buildData, backpackTrees, format);
+      const decoded = decodeBuildData(encoded);
+      return (
+        decoded !== null &&
+        isSameBuild(decoded, testCase.buildData) &&
+        JSON.stringify(decoded.meta) === JSON.stringify(testCase.buildData.meta)
+      );
+    });
+    const withoutMeta = decodeBuildData(encodeBuildData({ ...testCase.buildData, meta: {} }));
+
+    if (results.every(Boolean) && withoutMeta && withoutMeta.meta === undefined) {
+      console.log("✅ PASSED");
+      passedTests++;
+    } else {
+      console.log("❌ FAILED: Metadata does not round-trip");
+      failedTests++;
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Metadata Tests Summary");
+  console.log("===");
+  console.log(`📊 Total metadata tests: ${metadataTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: metadataTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
+/**
+ * Target level test cases: targets above the levels round-trip, others are dropped
+ */
+const targetTestCases: Array<{
+  name: string;
+  buildData: BuildData;
+  expectedTargets: Record<string, number>[] | undefined;
+}> = [
+  {
+    name: "Targets above the levels",
+    buildData: {
+      trees: [{ attack: 5 }, {}, {}],
+      owned: 10,
+      targets: [{ attack: 20, hp: 3 }, {}, { hp: 1 }],
+    },
+    expectedTargets: [{ attack: 20, hp: 3 }, {}, { hp: 1 }],
+  },
+  {
+    name: "Targets at or below the levels are dropped",
+    buildData: {
+      trees: [{ attack: 5, hp: 2 }, {}, {}],
+      owned: 0,
+      targets: [{ attack: 5, hp: 8 }, { hp: 0 }, {}],
+      meta: { name: "Next goal" },
+    },
+    expectedTargets: [{ hp: 8 }, {}, {}],
+  },
+  {
+    name: "No target above the levels (no targets segment)",
+    buildData: { trees: [{ attack: 5 }, {}, {}], owned: 0, targets: [{ attack: 3 }, {}, {}] },
+    expectedTargets: undefined,
+  },
+];
+
+/**
+ * Run target level tests
+ */
+export function runTargetTests() {
+  console.log("===");
+  console.log("Target Level Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  // Compares targets ignoring zeros and node order
+  const targetsOf = (trees: Record<string, number>[] | undefined) =>
+    trees &&
+    JSON.stringify(
+      trees.map((tree) =>
+        Object.entries(tree)
+          .filter(([, level]) => level > 0)
+          .sort(([a], [b]) => a.localeCompare(b)),
+      ),
+    );
+
+  targetTestCases.forEach((testCase, index) => {
+    console.log(`Target Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const results = (["text", "binary"] as const).map((format) => {
+      const encoded = encodeBuildData(testCase.buildData, backpackTrees, format);
+      const decoded = decodeBuildData(encoded);
+      return (
+        decoded !== null &&
+        isSameBuild(decoded, testCase.buildData) &&
+        targetsOf(decoded.targets) === targetsOf(testCase.expectedTargets)
+      );
+    });
+
+    if (results.every(Boolean)) {
+      console.log("✅ PASSED");
+      passedTests++;
+    } else {
+      console.log("❌ FAILED: Targets do not round-trip");
+      failedTests++;
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Target Tests Summary");
+  console.log("===");
+  console.log(`📊 Total target tests: ${targetTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: targetTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
+/**
+ * Small tree for the planner tests, costs are flat per level:
+ * core (1) -> spur (1) -> spur_end (1), and core -> link (5) -> final (20)
+ * spur_end and final are the Final nodes (leaves)
+ */
+const planTestTree: { nodes: TreeNode[] } = {
+  nodes: [
+    { id: "core", x: 0, y: 50, maxLevel: 10, parentIds: ["root"], cost: { base: 1, increment: 0 }, effect: { stat: "attack", perLevel: 1 } },
+    { id: "spur", x: -50, y: 100, maxLevel: 10, parentIds: ["core"], cost: { base: 1, increment: 0 } },
+    { id: "spur_end", x: -50, y: 150, maxLevel: 10, parentIds: ["spur"], cost: { base: 1, increment: 0 } },
+    { id: "link", x: 50, y: 100, maxLevel: 10, parentIds: ["core"], cost: { base: 5, increment: 0 }, effect: { stat: "attack", perLevel: 10 } },
+    { id: "final", x: 50, y: 150, maxLevel: 5, parentIds: ["link"], cost: { base: 20, increment: 0 } },
+  ],
+};
+
+/**
+ * Upgrade plan test cases: steps are "nodeId from→to", in plan order
+ */
+const upgradePlanTestCases: Array<{
+  name: string;
+  levels: Record<string, number>;
+  targets: Record<string, number>;
+  priority: UpgradePriority;
+  expectedSteps: string[];
+}> = [
+  {
+    name: "Parents are planned before their children",
+    levels: {},
+    targets: { final: 2 },
+    priority: "cheapest",
+    expectedSteps: ["core 0→1", "link 0→1", "final 0→2"],
+  },
+  {
+    name: "A level-0 parent gets its own 0→1 unlock step",
+    levels: {},
+    targets: { core: 5, spur: 1 },
+    priority: "cheapest",
+    expectedSteps: ["core 0→1", "spur 0→1", "core 1→5"],
+  },
+  {
+    name: "Cheapest first",
+    levels: { core: 1 },
+    targets: { spur: 1, final: 1 },
+    priority: "cheapest",
+    expectedSteps: ["spur 0→1", "link 0→1", "final 0→1"],
+  },
+  {
+    name: "Finals first unlocks the path to the Final node first",
+    levels: { core: 1 },
+    targets: { spur: 1, final: 1 },
+    priority: "finals",
+    expectedSteps: ["link 0→1", "final 0→1", "spur 0→1"],
+  },
+  {
+    name: "Reached targets are not planned",
+    levels: { core: 3, link: 2 },
+    targets: { core: 2, link: 2 },
+    priority: "cheapest",
+    expectedSteps: [],
+  },
+];
+
+/**
+ * Run upgrade plan tests
+ */
+export function runUpgradePlanTests() {
+  console.log("===");
+  console.log("Upgrade Plan Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  upgradePlanTestCases.forEach((testCase, index) => {
+    console.log(`Upgrade Plan Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const steps = createUpgradePlan(
+      [planTestTree],
+      [testCase.levels],
+      [testCase.targets],
+      testCase.priority,
+    ).map((step) => `${step.nodeId} ${step.fromLevel}→${step.toLevel}`);
+
+    if (steps.join() === testCase.expectedSteps.join()) {
+      console.log("✅ PASSED");
+      passedTests++;
+    } else {
+      console.log("❌ FAILED: Plan does not match");
+      console.log(`   Planned steps: ${steps.join(", ")}`);
+      failedTests++;
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Upgrade Plan Tests Summary");
+  console.log("===");
+  console.log(`📊 Total upgrade plan tests: ${upgradePlanTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: upgradePlanTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
+/**
+ * Auto-spend test cases on the planner test tree
+ */
+const autoSpendTestCases: Array<{
+  name: string;
+  levels: Record<string, number>;
+  targets?: Record<string, number>;
+  budget: number;
+  strategy: AutoSpendStrategy;
+  expectedLevels: Record<string, number>;
+  expectedSpent: number;
+}> = [
+  {
+    name: "Stat strategy stops at maxLevel",
+    levels: {},
+    budget: 1000,
+    strategy: { type: "stat", stat: "attack" },
+    expectedLevels: { core: 10, link: 10 },
+    expectedSpent: 60,
+  },
+  {
+    name: "Stat strategy buys the most per crystal within the budget",
+    levels: {},
+    budget: 12,
+    strategy: { type: "stat", stat: "attack" },
+    expectedLevels: { core: 2, link: 2 },
+    expectedSpent: 12,
+  },
+  {
+    name: "Even strategy skips locked nodes and levels the lowest first",
+    levels: {},
+    budget: 3,
+    strategy: { type: "even" },
+    expectedLevels: { core: 1, spur: 1, spur_end: 1 },
+    expectedSpent: 3,
+  },
+  {
+    name: "Priority strategy stops at the first unaffordable level",
+    levels: { core: 1 },
+    targets: { spur: 1, final: 1 },
+    budget: 10,
+    strategy: { type: "priority", priority: "finals" },
+    expectedLevels: { core: 1, link: 1 },
+    expectedSpent: 5,
+  },
+];
+
+/**
+ * Run auto-spend tests
+ * Every result must also stay within the budget and the max levels, and report what it spent
+ */
+export function runAutoSpendTests() {
+  console.log("===");
+  console.log("Auto-Spend Tests");
+  console.log("===");
+  console.log();
+
+  let passedTests = 0;
+  let failedTests = 0;
+
+  // Compares levels ignoring zeros and node order
+  const levelsOf = (levels: Record<string, number>) =>
+    JSON.stringify(
+      Object.entries(levels)
+        .filter(([, level]) => level > 0)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+
+  autoSpendTestCases.forEach((testCase, index) => {
+    console.log(`Auto-Spend Test ${index + 1}: ${testCase.name}`);
+    console.log("---");
+
+    const result = autoSpend(
+      [planTestTree],
+      [testCase.levels],
+      [testCase.targets ?? {}],
+      testCase.budget,
+      testCase.strategy,
+      [0],
+    );
+    const levels = result.levels[0];
+    const spentByLevels =
+      getTreeCost(planTestTree.nodes, levels) - getTreeCost(planTestTree.nodes, testCase.levels);
+    const withinMaxLevels = planTestTree.nodes.every((node) => (levels[node.id] ?? 0) <= node.maxLevel);
+
+    if (result.spent > testCase.budget || result.spent !== spentByLevels || !withinMaxLevels) {
+      console.log("❌ FAILED: Result is over the budget or a max level");
+      console.log(`   Spent: ${result.spent}, levels: ${JSON.stringify(levels)}`);
+      failedTests++;
+    } else if (
+      levelsOf(levels) !== levelsOf(testCase.expectedLevels) ||
+      result.spent !== testCase.expectedSpent
+    ) {
+      console.log("❌ FAILED: Levels do not match");
+      console.log(`   Spent: ${result.spent}, levels: ${JSON.stringify(levels)}`);
+      failedTests++;
+    } else {
+      console.log("✅ PASSED");
+      passedTests++;
+    }
+    console.log();
+  });
+
+  console.log("===");
+  console.log("Auto-Spend Tests Summary");
+  console.log("===");
+  console.log(`📊 Total auto-spend tests: ${autoSpendTestCases.length}`);
+  console.log(`✅ Passed: ${passedTests}`);
+  console.log(`❌ Failed: ${failedTests}`);
+  console.log("===");
+
+  return {
+    total: autoSpendTestCases.length,
+    passed: passedTests,
+    failed: failedTests,
+  };
+}
+
 /**
  * Check if encoder is compatible with new format
  * Detects if encoder uses old format (with : and ;) or new format (with - and _)
@@ -1083,7 +1924,18 @@ export function runErrorTests() {
         decoded = null;
       }
       
-      if (decoded === null) {
+      const result = testCase.expectedKind ? decodeBuildDataResult(testCase.invalidString) : null;
+      const error = result && !result.ok ? result.error : null;
+      if (
+        decoded === null &&
+        testCase.expectedKind &&
+        (error?.kind !== testCase.expectedKind || error.position !== testCase.expectedPosition)
+      ) {
+        console.log("❌ FAILED: Rejected with the wrong error");
+        console.log(`   Expected: ${testCase.expectedKind} at ${testCase.expectedPosition}`);
+        console.log(`   Reported: ${error ? `${error.kind} at ${error.position}` : "no error"}`);
+        failedTests++;
+      } else if (decoded === null) {
         console.log("✅ PASSED: Correctly rejected invalid format");
         passedTests++;
       } else {
@@ -1137,19 +1989,37 @@ try {
   console.log();
   const normalSummary = runTests();
   console.log();
+  const legacySummary = runLegacyTests();
+  console.log();
+  const repairSummary = runRepairTests();
+  console.log();
+  const metadataSummary = runMetadataTests();
+  console.log();
+  const targetSummary = runTargetTests();
+  console.log();
+  const upgradePlanSummary = runUpgradePlanTests();
+  console.log();
+  const autoSpendSummary = runAutoSpendTests();
+  console.log();
   
   // Combined Final Summary
   console.log("===");
   console.log("Final Combined Summary");
   console.log("===");
-  const totalTests = errorSummary.total + normalSummary.total;
-  const totalPassed = errorSummary.passed + normalSummary.passed;
-  const totalFailed = errorSummary.failed + normalSummary.failed;
+  const totalTests = errorSummary.total + normalSummary.total + legacySummary.total + repairSummary.total + metadataSummary.total + targetSummary.total + upgradePlanSummary.total + autoSpendSummary.total;
+  const totalPassed = errorSummary.passed + normalSummary.passed + legacySummary.passed + repairSummary.passed + metadataSummary.passed + targetSummary.passed + upgradePlanSummary.passed + autoSpendSummary.passed;
+  const totalFailed = errorSummary.failed + normalSummary.failed + legacySummary.failed + repairSummary.failed + metadataSummary.failed + targetSummary.failed + upgradePlanSummary.failed + autoSpendSummary.failed;
   const totalSkipped = errorSummary.skipped + normalSummary.skipped;
   
   console.log(`📊 Total tests (all): ${totalTests}`);
   console.log(`   - Error handling tests: ${errorSummary.total} (${errorSummary.passed} passed, ${errorSummary.failed} failed, ${errorSummary.skipped} skipped)`);
   console.log(`   - Encoding/decoding tests: ${normalSummary.total} (${normalSummary.passed} passed, ${normalSummary.failed} failed)`);
+  console.log(`   - Legacy share code tests: ${legacySummary.total} (${legacySummary.passed} passed, ${legacySummary.failed} failed)`);
+  console.log(`   - Build repair tests: ${repairSummary.total} (${repairSummary.passed} passed, ${repairSummary.failed} failed)`);
+  console.log(`   - Build metadata tests: ${metadataSummary.total} (${metadataSummary.passed} passed, ${metadataSummary.failed} failed)`);
+  console.log(`   - Target level tests: ${targetSummary.total} (${targetSummary.passed} passed, ${targetSummary.failed} failed)`);
+  console.log(`   - Upgrade plan tests: ${upgradePlanSummary.total} (${upgradePlanSummary.passed} passed, ${upgradePlanSummary.failed} failed)`);
+  console.log(`   - Auto-spend tests: ${autoSpendSummary.total} (${autoSpendSummary.passed} passed, ${autoSpendSummary.failed} failed)`);
   console.log(`✅ Total passed: ${totalPassed}`);
   console.log(`❌ Total failed: ${totalFailed}`);
   if (totalSkipped > 0) {